@@ -0,0 +1,517 @@
+import {
+  type AnyState,
+  createStore,
+  DELETE,
+  decode,
+  encode,
+  flush,
+  joinPath,
+  listenAll,
+  peek,
+  replace,
+  type StateConstraint,
+  type StateValue,
+  type Store,
+  type StoreOf,
+  type StoreView,
+  splitPath,
+  update,
+} from "./core.js";
+
+/**
+ * The parts of a `BroadcastChannel`, `MessagePort` or `Worker` that are used by {@link syncChannel}.
+ */
+export interface MessageTarget {
+  postMessage(message: unknown): void;
+  addEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+  removeEventListener(type: "message", listener: (event: MessageEvent) => void): void;
+  start?(): void;
+  close?(): void;
+}
+
+/**
+ * Options for {@link syncChannel}.
+ */
+export interface ChannelOptions {
+  /**
+   * A leader holds the authoritative state, and sends it to followers when they join.
+   * A follower asks for the state when it starts, and replaces its own with it. (default: "follower")
+   */
+  role?: "leader" | "follower";
+}
+
+// The messages sent between peers
+type ChannelPayload =
+  | { type: "join" }
+  | { type: "snapshot"; target: string | null; state: StateValue }
+  | { type: "batch"; pairs: [string, StateValue][] };
+
+// Every message is tagged with the peer that sent it and a sequence number
+type ChannelMessage = ChannelPayload & { tinystate: true; source: string; seq: number };
+
+// Encodes the pairs of a batch that are within a store, with paths relative to the store's prefix
+function encodePairs(
+  prefix: readonly string[],
+  pairs: readonly (readonly [PropertyKey, unknown])[],
+): [string, StateValue][] {
+  const relative: [string, StateValue][] = [];
+  for (const [path, value] of pairs) {
+    const segments = splitPath(path);
+    if (prefix.every((segment, i) => segments[i] === segment)) {
+      relative.push([joinPath(...segments.slice(prefix.length)), encode(value)]);
+    }
+  }
+  return relative;
+}
+
+/**
+ * Keeps a store in sync with stores in other tabs, workers or iframes, over a `BroadcastChannel`, `MessagePort` or `Worker`.
+ * Each batch of changes is sent to the other peers with {@link listenAll}, and batches from other peers are applied with {@link update},
+ * without being sent on again. Batches from each peer are applied in order, and any that arrive out of order are dropped.
+ * Followers that join late are sent a snapshot of the leader's state, as are existing followers when the leader starts.
+ * Values are sent with {@link encode}.
+ * @param store The Store object to sync
+ * @param channel The channel to send and receive changes on
+ * @param options The role of this peer
+ * @returns A function to stop syncing
+ * @example
+ * ```ts
+ * // In the main thread
+ * syncChannel(store, new BroadcastChannel("app"), { role: "leader" });
+ * // In a worker
+ * syncChannel(store, new BroadcastChannel("app"));
+ * ```
+ */
+export function syncChannel<T extends AnyState>(
+  store: StoreView<T, true>,
+  channel: MessageTarget,
+  options: ChannelOptions = {},
+): () => void {
+  const { role = "follower" } = options;
+  const anyStore = store as StoreView as Store;
+  const id = Math.random().toString(36).slice(2);
+  const prefix = splitPath(store.prefix);
+  // The last sequence number received from each peer
+  const received = new Map<string, number>();
+  let seq = 0;
+  let applying = false;
+
+  const post = (message: ChannelPayload) => {
+    channel.postMessage({ ...message, tinystate: true, source: id, seq: ++seq });
+  };
+  const sendSnapshot = (target: string | null) => {
+    post({ type: "snapshot", target, state: encode(peek(anyStore)) });
+  };
+  const apply = (fn: () => void) => {
+    applying = true;
+    try {
+      fn();
+      // Apply the changes now even if the store is deferred, so that they aren't sent back
+      flush(anyStore);
+    } finally {
+      applying = false;
+    }
+  };
+
+  const unsubscribe = listenAll(anyStore, (pairs) => {
+    if (applying) {
+      return;
+    }
+    const relative = encodePairs(prefix, pairs);
+    if (relative.length) {
+      post({ type: "batch", pairs: relative });
+    }
+  });
+  const onMessage = (event: MessageEvent) => {
+    const message = event.data as ChannelMessage;
+    if (!message?.tinystate || message.source === id) {
+      return;
+    }
+    if (message.type === "join") {
+      if (role === "leader") {
+        sendSnapshot(message.source);
+      }
+      return;
+    }
+    if ((received.get(message.source) ?? 0) >= message.seq) {
+      return;
+    }
+    received.set(message.source, message.seq);
+    if (message.type === "batch") {
+      apply(() =>
+        update(anyStore, ...message.pairs.map(([path, value]) => [path, decode(value)] as const)),
+      );
+    } else if (role === "follower" && (message.target === null || message.target === id)) {
+      apply(() => update(anyStore, ["", replace(decode(message.state))]));
+    }
+  };
+  channel.addEventListener("message", onMessage);
+  channel.start?.();
+  if (role === "leader") {
+    sendSnapshot(null);
+  } else {
+    post({ type: "join" });
+  }
+  return () => {
+    unsubscribe();
+    channel.removeEventListener("message", onMessage);
+  };
+}
+
+// The messages sent between a store exposed with exposeStore and a replica created with connectStore
+type RemoteMessage =
+  | { type: "snapshot"; state: StateValue }
+  | { type: "batch"; pairs: [string, StateValue][] }
+  | { type: "update"; pairs: [string, StateValue][] };
+
+/**
+ * Exposes a store to a replica created with {@link connectStore} on the other end of a `MessagePort`, such as from a worker
+ * that owns the state. The replica is sent the current state straight away, and then each batch of changes.
+ * Writes made to the replica are applied to this store, where interceptors and validation can still transform or reject them,
+ * and the replica is then sent the resulting values, including any other paths that interceptors changed.
+ * An interceptor that throws, such as one added by `lock`, rejects the write. Expose the store to each replica on its own port.
+ * @param store The Store object to expose
+ * @param port The port to the replica
+ * @returns A function to stop exposing the store
+ * @example
+ * ```ts
+ * // In the worker
+ * onmessage = (event) => exposeStore(store, event.ports[0]);
+ * // In the main thread
+ * const { port1, port2 } = new MessageChannel();
+ * worker.postMessage(null, [port2]);
+ * const { store } = connectStore<AppState>(port1);
+ * ```
+ */
+export function exposeStore<T extends AnyState>(
+  store: StoreView<T, true>,
+  port: MessageTarget,
+): () => void {
+  const anyStore = store as StoreView as Store;
+  const prefix = splitPath(store.prefix);
+  const post = (message: RemoteMessage) => port.postMessage(message);
+  // The changes made while applying an update from the replica, which are sent back with the reply instead
+  let applied: (readonly [PropertyKey, unknown])[] | null = null;
+  const unsubscribe = listenAll(anyStore, (pairs) => {
+    if (applied) {
+      applied.push(...pairs);
+      return;
+    }
+    const relative = encodePairs(prefix, pairs);
+    if (relative.length) {
+      post({ type: "batch", pairs: relative });
+    }
+  });
+  const onMessage = (event: MessageEvent) => {
+    const message = event.data as RemoteMessage;
+    if (message?.type !== "update") {
+      return;
+    }
+    const changes: (readonly [PropertyKey, unknown])[] = [];
+    applied = changes;
+    try {
+      update(anyStore, ...message.pairs.map(([path, value]) => [path, decode(value)] as const));
+      flush(anyStore);
+    } catch {
+      // The write was rejected, such as by a `lock`, so the reply below reverts the replica
+    } finally {
+      applied = null;
+    }
+    // Send back what was actually written, in case it was transformed or rejected
+    const requested = message.pairs.map(([path]) => splitPath(path));
+    const resolved = message.pairs.map(([path]): [string, StateValue] => {
+      const value = peek(anyStore, path);
+      return [path, encode(value === undefined ? DELETE : value)];
+    });
+    // Along with any changes that interceptors made to other paths
+    const others = encodePairs(prefix, changes).filter(([path]) => {
+      const segments = splitPath(path);
+      return !requested.some((request) => request.every((segment, i) => segments[i] === segment));
+    });
+    post({ type: "batch", pairs: [...resolved, ...others] });
+  };
+  port.addEventListener("message", onMessage);
+  port.start?.();
+  post({ type: "snapshot", state: encode(peek(anyStore)) });
+  return () => {
+    unsubscribe();
+    port.removeEventListener("message", onMessage);
+  };
+}
+
+/**
+ * The replica returned by {@link connectStore}.
+ */
+export interface RemoteStore<T extends StateConstraint> {
+  /**
+   * A local replica of the exposed store
+   */
+  readonly store: StoreOf<T>;
+
+  /**
+   * Stops syncing the replica with the exposed store, and closes the port. The replica keeps its last state.
+   */
+  readonly stop: () => void;
+}
+
+/**
+ * Connects to a store exposed with {@link exposeStore} on the other end of a `MessagePort`, returning a local replica of it.
+ * Reading the replica with `peek` is synchronous, and its listeners are called as batches of changes arrive from the exposed store.
+ * Writes to the replica are applied to it straight away and forwarded to the exposed store, which remains the source of truth:
+ * if it transforms or rejects a write, the replica is corrected.
+ * @param port The port to the exposed store
+ * @param initialState The state of the replica until the exposed store's state arrives (default: undefined)
+ * @returns The replica, and a function to disconnect it
+ */
+export function connectStore<T extends StateConstraint>(
+  port: MessageTarget,
+  initialState?: T,
+): RemoteStore<T> {
+  const replica = createStore<T>(initialState as T);
+  const anyStore = replica as StoreView as Store;
+  let applying = false;
+  const unsubscribe = listenAll(anyStore, (pairs) => {
+    if (!applying) {
+      port.postMessage({ type: "update", pairs: encodePairs([], pairs) } satisfies RemoteMessage);
+    }
+  });
+  const onMessage = (event: MessageEvent) => {
+    const message = event.data as RemoteMessage;
+    applying = true;
+    try {
+      if (message?.type === "snapshot") {
+        update(anyStore, ["", replace(decode(message.state))]);
+      } else if (message?.type === "batch") {
+        update(anyStore, ...message.pairs.map(([path, value]) => [path, decode(value)] as const));
+      }
+    } finally {
+      applying = false;
+    }
+  };
+  port.addEventListener("message", onMessage);
+  port.start?.();
+  return {
+    store: replica,
+    stop: () => {
+      unsubscribe();
+      port.removeEventListener("message", onMessage);
+      port.close?.();
+    },
+  };
+}
+
+/* v8 ignore start -- @preserve */
+if (import.meta.vitest) {
+  const { test, expect, vi } = import.meta.vitest;
+  const { focus, intercept, listen, lock } = await import("./core.js");
+
+  // An in-memory BroadcastChannel, which delivers each message to every other endpoint in a microtask
+  function createBus() {
+    const endpoints = new Set<{ listeners: Set<(event: MessageEvent) => void> }>();
+    const sent: ChannelMessage[] = [];
+    const connect = (): MessageTarget => {
+      const endpoint = { listeners: new Set<(event: MessageEvent) => void>() };
+      endpoints.add(endpoint);
+      return {
+        postMessage: (message) => {
+          sent.push(message as ChannelMessage);
+          const data = structuredClone(message);
+          queueMicrotask(() => {
+            for (const other of endpoints) {
+              if (other !== endpoint) {
+                for (const listener of other.listeners) {
+                  listener(new MessageEvent("message", { data }));
+                }
+              }
+            }
+          });
+        },
+        addEventListener: (_type, listener) => endpoint.listeners.add(listener),
+        removeEventListener: (_type, listener) => endpoint.listeners.delete(listener),
+      };
+    };
+    return { connect, sent };
+  }
+  const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+  test("syncChannel sends the leader's state to followers", async () => {
+    const bus = createBus();
+    const early = createStore({ count: 0, when: new Date(0) });
+    syncChannel(early, bus.connect());
+    const leader = createStore({ count: 1, when: new Date(1) });
+    syncChannel(leader, bus.connect(), { role: "leader" });
+    await settle();
+    expect(peek(early)).toEqual({ count: 1, when: new Date(1) });
+    update(leader, ["count", 2]);
+    const late = createStore({ count: 0, when: new Date(0) });
+    syncChannel(late, bus.connect());
+    await settle();
+    expect(peek(late)).toEqual({ count: 2, when: new Date(1) });
+    expect(peek(early)).toEqual({ count: 2, when: new Date(1) });
+  });
+
+  test("syncChannel applies batches without sending them back", async () => {
+    const bus = createBus();
+    const a = createStore({ items: ["x"], other: 0 } as {
+      items: string[];
+      other: number;
+      gone?: number;
+    });
+    const b = createStore({ items: ["x"], other: 0 } as {
+      items: string[];
+      other: number;
+      gone?: number;
+    });
+    syncChannel(a, bus.connect(), { role: "leader" });
+    const stop = syncChannel(b, bus.connect(), { role: "follower" });
+    await settle();
+    bus.sent.length = 0;
+    const listener = vi.fn();
+    listen(b, "other", listener);
+    update(a, ["items", ["x", "y"]], ["gone", 1]);
+    update(a, ["gone", null]);
+    await settle();
+    expect(peek(b)).toEqual({ items: ["x", "y"], other: 0 });
+    expect(listener).not.toHaveBeenCalled();
+    expect(bus.sent.map(({ source }) => source)).toEqual([bus.sent[0].source, bus.sent[0].source]);
+    update(b, ["other", 1]);
+    await settle();
+    expect(peek(a, "other")).toBe(1);
+    stop();
+    update(b, ["other", 2]);
+    update(a, ["other", 3]);
+    await settle();
+    expect(peek(a, "other")).toBe(3);
+    expect(peek(b, "other")).toBe(2);
+  });
+
+  test("syncChannel sends new empty objects and arrays", async () => {
+    const bus = createBus();
+    type State = { a?: Record<string, number>; b: number | number[] };
+    const a = createStore<State>({ b: 1 });
+    const b = createStore<State>({ b: 1 });
+    syncChannel(a, bus.connect(), { role: "leader" });
+    syncChannel(b, bus.connect(), { role: "follower" });
+    await settle();
+    update(a, ["a", {}], ["b", []]);
+    await settle();
+    expect(peek(b)).toEqual({ a: {}, b: [] });
+  });
+
+  test("syncChannel syncs focused stores and drops stale messages", async () => {
+    const bus = createBus();
+    const root = createStore({ shared: { "a.b": 1 }, local: 0 });
+    const other = createStore({ "a.b": 0 });
+    const port = bus.connect();
+    const listeners: ((event: MessageEvent) => void)[] = [];
+    const start = vi.fn();
+    syncChannel(focus(root, "shared"), {
+      ...port,
+      addEventListener: (type, listener) => {
+        listeners.push(listener);
+        port.addEventListener(type, listener);
+      },
+      start,
+    });
+    expect(start).toHaveBeenCalled();
+    syncChannel(other, bus.connect(), { role: "leader" });
+    await settle();
+    expect(peek(root)).toEqual({ shared: { "a.b": 0 }, local: 0 });
+    update(root, ["local", 1], ["shared.a\\.b", 2]);
+    await settle();
+    expect(peek(other)).toEqual({ "a.b": 2 });
+    const stale = bus.sent[bus.sent.length - 1];
+    for (const listener of listeners) {
+      listener(new MessageEvent("message", { data: { ...stale, source: "old", seq: 2 } }));
+      listener(
+        new MessageEvent("message", {
+          data: { ...stale, source: "old", seq: 1, pairs: [["a\\.b", 5]] },
+        }),
+      );
+      listener(new MessageEvent("message", { data: "unrelated" }));
+    }
+    expect(peek(root, "shared")).toEqual({ "a.b": 2 });
+  });
+
+  test("connectStore replicates a store over a MessagePort", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const owner = createStore({ todos: [{ text: "a", done: false }], when: new Date(0) });
+    const stop = exposeStore(owner, port1);
+    type Todo = { text: string; done: boolean };
+    const { store: replica, stop: disconnect } = connectStore<{ todos: Todo[]; when: Date }>(
+      port2,
+      {
+        todos: [{ text: "", done: false }],
+        when: new Date(0),
+      },
+    );
+    const listener = vi.fn();
+    listen(replica, "todos.0.done", listener);
+    await vi.waitFor(() => expect(peek(replica)).toEqual(peek(owner)));
+    update(owner, ["todos.0.done", true], ["when", new Date(1)]);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(true, "todos.0.done"));
+    expect(peek(replica, "when")).toEqual(new Date(1));
+    update(replica, ["todos", (todos: Todo[]) => [...todos, { text: "b", done: false }]]);
+    expect(peek(replica, "todos.1.text")).toBe("b");
+    await vi.waitFor(() => expect(peek(owner, "todos")).toHaveLength(2));
+    expect(peek(owner, "todos.1")).toEqual({ text: "b", done: false });
+    stop();
+    disconnect();
+    update(replica, ["when", new Date(2)]);
+    expect(peek(owner, "when")).toEqual(new Date(1));
+  });
+
+  test("connectStore forwards new empty objects and arrays", async () => {
+    const { port1, port2 } = new MessageChannel();
+    type State = { a?: Record<string, number>; b: number | number[] };
+    const owner = createStore<State>({ b: 1 });
+    exposeStore(owner, port1);
+    const { store: replica, stop } = connectStore<State>(port2);
+    await vi.waitFor(() => expect(peek(replica)).toEqual({ b: 1 }));
+    update(replica, ["a", {}], ["b", []]);
+    await vi.waitFor(() => expect(peek(owner)).toEqual({ a: {}, b: [] }));
+    update(owner, ["a", null], ["b", [1]]);
+    await vi.waitFor(() => expect(peek(replica)).toEqual({ b: [1] }));
+    stop();
+  });
+
+  test("connectStore is corrected when the exposed store rejects a write", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const owner = createStore({ shared: { count: 0, name: "a" }, local: 0 });
+    intercept(owner, "shared.count", ([path, count]) => [[path, Math.min(count as number, 10)]]);
+    exposeStore(focus(owner, "shared"), port1);
+    const { store: replica } = connectStore<{ count: number; name?: string }>(port2);
+    await vi.waitFor(() => expect(peek(replica)).toEqual({ count: 0, name: "a" }));
+    update(owner, ["local", 1]);
+    update(replica, ["count", 50], ["name", null]);
+    expect(peek(replica, "count")).toBe(50);
+    await vi.waitFor(() => expect(peek(replica, "count")).toBe(10));
+    expect(peek(owner)).toEqual({ shared: { count: 10 }, local: 1 });
+    port2.postMessage({ type: "unknown" });
+    port1.postMessage({ type: "unknown" });
+    port1.postMessage(null);
+    update(replica, ["name", "b"]);
+    await vi.waitFor(() => expect(peek(owner, "shared.name")).toBe("b"));
+    port1.close();
+  });
+
+  test("connectStore is corrected when the exposed store throws or writes elsewhere", async () => {
+    const { port1, port2 } = new MessageChannel();
+    const owner = createStore({ a: 1, b: { c: 1 }, total: 2 });
+    lock(owner, "a");
+    intercept(owner, "b.c", ([path, c]) => [
+      [path, c],
+      ["total", peek(owner, "a") + (c as number)],
+    ]);
+    exposeStore(owner, port1);
+    const { store: replica } = connectStore<{ a: number; b: { c: number }; total: number }>(port2);
+    await vi.waitFor(() => expect(peek(replica)).toEqual(peek(owner)));
+    update(replica, ["a", 5]);
+    expect(peek(replica, "a")).toBe(5);
+    await vi.waitFor(() => expect(peek(replica, "a")).toBe(1));
+    update(replica, ["b.c", 4]);
+    await vi.waitFor(() => expect(peek(replica, "total")).toBe(5));
+    expect(peek(owner)).toEqual({ a: 1, b: { c: 4 }, total: 5 });
+    port1.close();
+  });
+}
@@ -39,6 +39,24 @@ type ConcatPath<Prefix extends PropertyKey, Suffix extends PropertyKey> = Prefix
     ? Prefix
     : `${Stringify<Prefix>}.${Stringify<Suffix>}`;
 
+// The type-level equivalent of `escapeKey`, which leaves number keys as they are
+type EscapeKey<K> = K extends string ? EscapeChar<EscapeChar<K, "\\">, "."> : K;
+type EscapeChar<S extends string, C extends string> = S extends `${infer Head}${C}${infer Rest}`
+  ? `${Head}\\${C}${EscapeChar<Rest, C>}`
+  : S;
+
+type _Test_EscapeKey = Assert<EscapeKey<"a.b\\c.d">, "a\\.b\\\\c\\.d">;
+
+/**
+ * The path made by joining the given keys, as returned by {@link joinPath}.
+ */
+export type JoinPath<K extends readonly PropertyKey[]> = K extends readonly [
+  infer Head extends PropertyKey,
+  ...infer Rest extends PropertyKey[],
+]
+  ? ConcatPath<EscapeKey<Head>, JoinPath<Rest>>
+  : "";
+
 // Determines if `T` is recursive (i.e., contains itself as a property) to prevent infinite path expansion.
 // Note that this doesn't detect indirect recursion.
 type IsRecursive<T> = T extends AtomicValue ? false : T extends T[keyof T] ? true : false;
@@ -124,7 +142,7 @@ export type PathMap<T, Prefix extends PropertyKey = ""> =
     : { [K in Prefix]: T } & _PathMap<MergeUnion<T>, Prefix>;
 type _PathMap<T, Prefix extends PropertyKey> = UnionToIntersection<
   {
-    [K in keyof T]: PathMap<T[K], ConcatPath<Prefix, K>>;
+    [K in keyof T]: PathMap<T[K], ConcatPath<Prefix, EscapeKey<K>>>;
   }[keyof T]
 >;
 
@@ -149,6 +167,14 @@ type _Test_PathMap2 = Assert<
     b: string | undefined;
   }
 >;
+type _Test_PathMap3 = Assert<
+  PathMap<{ "1.2.0": { "a\\b": number } }>,
+  {
+    "": { "1.2.0": { "a\\b": number } };
+    "1\\.2\\.0": { "a\\b": number };
+    "1\\.2\\.0.a\\\\b": number;
+  }
+>;
 
 /**
  * Creates a PathMap where metadata paths `M` are nested under each data path in `T`, merged with root-level metadata paths in `R`.
@@ -227,6 +253,51 @@ export type ValueOf<T, P extends PropertyKey | undefined> = P extends keyof Path
   ? PathMap<T>[P]
   : never;
 
+// Converts a glob-style path pattern into a template literal type that accepts the paths it matches.
+// This is slightly looser than the runtime matching, since `${string}` can span several segments.
+type PatternTemplate<P extends PropertyKey> = P extends "*" | "**"
+  ? string
+  : P extends `**.${infer Rest}`
+    ? PatternTemplate<Rest> | `${string}.${PatternTemplate<Rest>}`
+    : P extends `${infer Head}.**`
+      ? PatternTemplate<Head> | `${PatternTemplate<Head>}.${string}`
+      : P extends `${infer Head}.${infer Rest}`
+        ? `${Head extends "*" ? string : Head}.${PatternTemplate<Rest>}`
+        : P;
+
+/**
+ * The paths in the PathMap `T` that match the glob-style pattern `P`.
+ * @example
+ * ```ts
+ * type Paths = PathMap<{ items: { name: string; done: boolean }[] }>;
+ * type Names = PatternMatch<Paths, "items.*.name">; // Result: `items.${number}.name`
+ * ```
+ */
+export type PatternMatch<T extends AnyState, P extends PropertyKey> = Extract<
+  keyof T,
+  PatternTemplate<P>
+>;
+
+/**
+ * A glob-style path pattern for the PathMap `T`, where `*` matches exactly one path segment and `**` matches any number of segments.
+ * Resolves to `P` if it matches at least one path in `T`, or `never` otherwise.
+ */
+export type PathPattern<T extends AnyState, P extends PropertyKey> = [PatternMatch<T, P>] extends [
+  never,
+]
+  ? never
+  : P;
+
+type _Test_PathPattern = Assert<
+  [
+    PatternMatch<PathMap<{ a: { b: number; c: { d: string }[] } }>, "a.c.*.d">,
+    PatternMatch<PathMap<{ a: { b: number; c: { d: string } } }>, "**.d">,
+    PatternMatch<PathMap<{ a: { b: number; c: { d: string } } }>, "a.**">,
+    PathPattern<PathMap<{ a: { b: number } }>, "a.*.c">,
+  ],
+  [`a.c.${number}.d`, "a.c.d", "a" | "a.b" | "a.c" | "a.c.d", never]
+>;
+
 /**
  * A state object with any keys and values, as a fallback type.
  */
@@ -240,14 +311,19 @@ const brand = Symbol("Store");
  * An opaque object that points to a state tree. These cannot be constructed directly; use {@link createStore} instead.
  * @template T  The `PathMap` type representing the shape of the state in the store
  * @template Mutable  Whether the store is mutable (true) or read-only (false)
+ * @template LiteralNull  Whether `null` is stored as a value (true), deletes keys (false), or either (boolean). See {@link StoreOptions.literalNull}.
  */
-export interface StoreView<T extends AnyState = AnyState, Mutable extends boolean = boolean> {
+export interface StoreView<
+  T extends AnyState = AnyState,
+  Mutable extends boolean = boolean,
+  LiteralNull extends boolean = boolean,
+> {
   /**
    * Brand to identify Store objects and ensure type safety
    * Note that the real value will always be `[true, null]`, so you should not read this property at runtime.
    * @internal
    */
-  readonly [brand]: readonly [Mutable, T];
+  readonly [brand]: readonly [Mutable, T, LiteralNull?];
 
   /**
    * The root store (null for the root store itself)
@@ -268,28 +344,95 @@ export type Store<T extends AnyState = AnyState> = StoreView<T, true>;
 /**
  * A read-only StoreView object that points to a state tree.
  */
-export type StoreViewOf<T extends StateConstraint, Mutable extends boolean = boolean> = StoreView<
-  PathMap<T>,
-  Mutable
->;
+export type StoreViewOf<
+  T extends StateConstraint,
+  Mutable extends boolean = boolean,
+  LiteralNull extends boolean = boolean,
+> = StoreView<PathMap<T>, Mutable, LiteralNull>;
 
 /**
  * A mutable Store object for state of type `T`.
  */
 export type StoreOf<T extends StateConstraint> = StoreViewOf<T, true>;
 
-type AnyPatch = StateValue | ((prev: StateValue) => StateValue);
+type AnyPatch = PatchedValue | ((prev: StateValue) => PatchedValue) | Replacement<StateValue>;
+
+// A value in a patch after it has been resolved, where DELETE marks a key for deletion
+type PatchedValue = StateValue | typeof DELETE;
 
 // Holds the actual mutable state and listeners for a Store
 interface StoreImpl {
   _state: StateValue;
+  // The state with the updates applied so far in the batch being processed, which `lock` checks writes against
+  _batchState: StateValue;
   // biome-ignore lint/suspicious/noExplicitAny: we can't restrict the type here
   readonly _listeners: Map<PropertyKey, Set<(value: any, path: any) => void>>;
+  // Listeners registered with a glob-style pattern, which are matched against every changed path
+  // biome-ignore lint/suspicious/noExplicitAny: we can't restrict the type here
+  readonly _patternListeners: Map<PropertyKey, Set<(value: any, path: any) => void>>;
   // biome-ignore lint/suspicious/noExplicitAny: we can't restrict the type here
   readonly _extListeners: Map<(pairs: readonly any[]) => void, boolean>;
   readonly _queuedUpdates: [PropertyKey, AnyPatch][];
+  // The depth of nested `transaction` calls; queued updates are held until this returns to zero
+  _transactions: number;
+  // Whether the change queue is currently being processed
+  _flushing: boolean;
+  // Schedules a deferred flush of the change queue, or null to apply changes synchronously
+  readonly _schedule: ((flush: () => void) => void) | null;
+  // Whether a deferred flush has been scheduled and not yet run
+  _scheduled: boolean;
+  // Functions that can transform queued updates before they are applied, in registration order
+  readonly _interceptors: [pattern: string[], interceptor: AnyInterceptor][];
+  readonly _afterUpdate: Set<(changes: ReadonlyMap<PropertyKey, StateValue>) => void>;
+  // Whether `null` is stored as a value rather than deleting keys
+  readonly _literalNull: boolean;
+  // The number of listeners registered with `listen` and `listenAll`
+  _observers: number;
+  // For computed stores, hooks to bring the state up to date and to start or stop watching its sources
+  readonly _derived: Derivation | null;
+  // The state the store was created with, used by development-mode diagnostics
+  readonly _initial: StateValue;
+}
+
+interface Derivation {
+  _refresh(): void;
+  _observe(observed: boolean): void;
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: we can't restrict the type here
+type AnyInterceptor = (pair: readonly [any, any]) => readonly (readonly [PropertyKey, any])[];
+
+/**
+ * Determines when listeners are notified of changes:
+ * - `"sync"`: immediately after each call to `patch` or `update` (the default)
+ * - `"microtask"`: in a microtask, so all changes made in the same tick are notified together
+ * - `"raf"`: before the next animation frame
+ * - A custom function that is passed a `flush` callback to call at a time of its choosing
+ */
+export type Scheduler = "sync" | "microtask" | "raf" | ((flush: () => void) => void);
+
+/**
+ * Options for {@link createStore}.
+ */
+export interface StoreOptions {
+  /**
+   * When to apply queued changes and notify listeners (default: `"sync"`). See {@link Scheduler}.
+   */
+  scheduler?: Scheduler;
+
+  /**
+   * Whether `null` in a patch is stored as a value, instead of deleting the key (default: false).
+   * Keys can be deleted with {@link DELETE} in either mode.
+   */
+  literalNull?: boolean;
 }
 
+/**
+ * A patch value that deletes the key at its position. In stores created with the `literalNull` option,
+ * this is the only way to delete a key, and {@link listenAll} reports deleted paths with this value.
+ */
+export const DELETE: unique symbol = Symbol("delete");
+
 const {
   freeze,
   preventExtensions,
@@ -297,20 +440,101 @@ const {
   fromEntries,
   keys: objectKeys,
   assign,
+  isFrozen,
 } = Object;
 const { isArray, from: arrayFrom } = Array;
+const { hasOwnProperty: hasOwn } = Object.prototype;
 
 // Maps Store objects to their implementations
 const implMap = new WeakMap<StoreView, StoreImpl>();
 
+// Whether to run development-mode diagnostics. Bundlers replace `process.env.NODE_ENV`, so production builds remove them.
+// Where `process` doesn't exist and nothing replaces it, such as unbundled ES modules in a browser, they are turned off.
+const DEV = typeof process !== "undefined" && process.env.NODE_ENV !== "production";
+
+// Store objects that can't be written to, created by `readonly` and `computed`, and their focused sub-stores
+const readonlyStores = new WeakSet<StoreView>();
+
+// Item stores of `keyedItems` that are being updated from their array, so that the changes aren't written back
+const syncingItems = new WeakSet<StoreView>();
+
+// Maps the read-only views of root stores, which read-only views use as their `root`, to the stores they view
+const readonlyRoots = new WeakMap<StoreView, StoreView>();
+
+// Maps root stores to their read-only views, so that each root store has only one
+const readonlyViews = new WeakMap<StoreView, StoreView>();
+
+// Stores that have been destroyed, to explain errors when they are used afterwards
+const destroyedStores = new WeakSet<StoreView>();
+
+// The root states before and after each batch, keyed by the pairs delivered for it to `listenAll` listeners
+const batchStates = new WeakMap<object, readonly [previous: StateValue, next: StateValue]>();
+
+// The keys and values of atoms when they were inserted into a state, to detect them being mutated afterwards
+const atomSnapshots = new WeakMap<object, unknown[]>();
+
+function warn(message: string): void {
+  console.warn(`[tinystate] ${message}`);
+}
+
+// Records the contents of an atom, warning if they have changed since the last time it was seen
+function checkAtom(value: unknown, path: PropertyKey): void {
+  if (value && typeof value === "object" && (value as Atom)[atom]) {
+    // A shallow snapshot is cheap to take, and catches the most common mutations
+    const snapshot = objectEntries(value).flat();
+    const previous = atomSnapshots.get(value);
+    if (
+      previous &&
+      (previous.length !== snapshot.length ||
+        previous.some((item, i) => !Object.is(item, snapshot[i])))
+    ) {
+      warn(
+        `The atom at "${String(path)}" was mutated after it was inserted. Atoms are compared by reference, so insert a new object instead.`,
+      );
+    }
+    atomSnapshots.set(value, snapshot);
+  }
+}
+
 // Safely indexes into a StateValue object or array
 function index(obj: StateValue, key: string): StateValue {
   return obj && typeof obj === "object" ? obj[key as string & number] : undefined;
 }
 
-// Splits a path string into segments separated by dots, ignoring empty segments
+// Splits a path string into segments separated by unescaped dots, ignoring empty segments
 function segments(path: PropertyKey): string[] {
-  return String(path).match(/[^.]+/g) || [];
+  return (String(path).match(/(?:[^.\\]|\\.?)+/g) || []).map((segment) =>
+    segment.replace(/\\(.)/g, "$1"),
+  );
+}
+
+// Escapes the dots and backslashes in a key, so that it can be used as a single path segment
+function escapeKey(key: PropertyKey): string {
+  return String(key).replace(/[.\\]/g, "\\$&");
+}
+
+/**
+ * Joins keys into a path, escaping any dots and backslashes within them with a backslash,
+ * so that keys such as email addresses or version numbers can be used with all functions that take a path.
+ * Paths can also be written with the escapes directly, as in `"hosts.example\\.com"`.
+ * @param keys The keys to join
+ * @returns The path
+ * @example
+ * ```ts
+ * peek(store, joinPath("byHost", "a.b.com")); // the same as peek(store, "byHost.a\\.b\\.com")
+ * ```
+ */
+export function joinPath<const K extends readonly PropertyKey[]>(...keys: K): JoinPath<K> {
+  return keys.map(escapeKey).join(".") as JoinPath<K>;
+}
+
+/**
+ * Splits a path into its keys, removing the escapes added by {@link joinPath}.
+ * @param path The path to split
+ * @returns The keys in the path
+ */
+export function splitPath(path: PropertyKey): string[] {
+  return segments(path);
 }
 
 function deepIndex(obj: StateValue, path: PropertyKey): StateValue {
@@ -321,26 +545,159 @@ function deepIndex(obj: StateValue, path: PropertyKey): StateValue {
   return result;
 }
 
+// Checks whether a path is in a state, or is inside an index past the end of an array, which may be added later
+function isKnownPath(state: StateValue, path: PropertyKey): boolean {
+  let value = state;
+  for (const segment of segments(path)) {
+    if (isArray(value) && /^\d+$/.test(segment) && +segment >= value.length) {
+      return true;
+    }
+    value = index(value, segment);
+  }
+  return value !== undefined;
+}
+
+// Checks whether two values are both objects, or both arrays
+function isSameKind(a: StateValue, b: StateValue): boolean {
+  return !isAtomic(a) && !isAtomic(b) && isArray(a) === isArray(b);
+}
+
+// Counts the segments of a path
+function depth(path: PropertyKey): number {
+  return path === "" ? 0 : segments(path).length;
+}
+
+// Checks whether a path contains wildcard segments
+function isPatternSegments(pathSegments: string[]): boolean {
+  return pathSegments.some((segment) => segment === "*" || segment === "**");
+}
+
+// Matches path segments against pattern segments, where `*` matches one segment and `**` matches any number
+function matchSegments(pattern: string[], path: string[], i = 0, j = 0): boolean {
+  if (i === pattern.length) {
+    return j === path.length;
+  }
+  if (pattern[i] === "**") {
+    return (
+      matchSegments(pattern, path, i + 1, j) ||
+      (j < path.length && matchSegments(pattern, path, i, j + 1))
+    );
+  }
+  return (
+    j < path.length &&
+    (pattern[i] === "*" || pattern[i] === path[j]) &&
+    matchSegments(pattern, path, i + 1, j + 1)
+  );
+}
+
+// Checks whether some path nested below `path` could match the pattern
+function matchDescendant(pattern: string[], path: string[], i = 0, j = 0): boolean {
+  if (j === path.length) {
+    return i < pattern.length;
+  }
+  if (i === pattern.length) {
+    return false;
+  }
+  return (
+    pattern[i] === "**" ||
+    ((pattern[i] === "*" || pattern[i] === path[j]) && matchDescendant(pattern, path, i + 1, j + 1))
+  );
+}
+
+// Calls `fn` for `value` and every value nested within it, along with their paths
+function forEachPath(
+  value: StateValue,
+  path: PropertyKey,
+  fn: (path: PropertyKey, value: StateValue) => void,
+): void {
+  fn(path, value);
+  if (!isAtomic(value)) {
+    for (const key of objectKeys(value)) {
+      forEachPath(index(value, key), childPath(path, key), fn);
+    }
+    if (isArray(value)) {
+      fn(concatPath(path, "length"), value.length);
+    }
+  }
+}
+
+// Lists the keys of `current` that are not present in `next`, including an array's `length`
+function missingKeys(current: object, next: object): string[] {
+  const keys = objectKeys(current).filter((key) => !(key in next));
+  if (isArray(current) && !isArray(next)) {
+    keys.push("length");
+  }
+  return keys;
+}
+
 // Concatenates a prefix and key into a dot-separated path
 function concatPath(prefix: PropertyKey, key: PropertyKey): PropertyKey {
   return prefix === "" ? key : key === "" ? prefix : `${prefix as string}.${key as string}`;
 }
 
+// Appends a single key to a path, escaping it
+function childPath(path: PropertyKey, key: string): PropertyKey {
+  return concatPath(path, escapeKey(key));
+}
+
+// Gets the root store of a store, looking through read-only views so that they never expose a writable store
+function getRoot(store: StoreView): StoreView {
+  const root = store.root || store;
+  return readonlyRoots.get(root) || root;
+}
+
 function getImpl(store: StoreView): StoreImpl {
-  const storeImpl = implMap.get(store.root || store);
+  const storeImpl = implMap.get(getRoot(store));
   if (!storeImpl) {
+    if (DEV && store && typeof store === "object" && destroyedStores.has(getRoot(store))) {
+      throw new Error("Invalid store: the store has been destroyed");
+    }
+    if (DEV && !(store && typeof store === "object" && "prefix" in store)) {
+      throw new Error(`Invalid store: expected a store object, but got ${String(store)}`);
+    }
     throw new Error("Invalid store");
   }
   return storeImpl;
 }
 
+// Gets the implementation of a store that is about to be written to, or that could change how it is written to
+function getWritableImpl(store: StoreView): StoreImpl {
+  if (readonlyStores.has(store)) {
+    throw new Error("Cannot write to a read-only store");
+  }
+  return getImpl(store);
+}
+
+function resolveScheduler(scheduler: Scheduler): StoreImpl["_schedule"] {
+  switch (scheduler) {
+    case "sync":
+      return null;
+    case "microtask":
+      return (flush) => queueMicrotask(flush);
+    case "raf":
+      return (flush) => requestAnimationFrame(flush);
+    default:
+      return scheduler;
+  }
+}
+
 /**
  * Creates a new state store with the given initial state.
  * @param factory The initial state value
+ * @param options Options for the new store. These are ignored if `factory` provides an existing store.
  * @returns A new Store object
  */
 export function createStore<T extends StateConstraint, M extends boolean = true>(
   factory: T | StoreViewOf<T, M> | (() => StoreViewOf<T, M>),
+  options: StoreOptions & { literalNull: true },
+): StoreViewOf<T, M, true>;
+export function createStore<T extends StateConstraint, M extends boolean = true>(
+  factory: T | StoreViewOf<T, M> | (() => StoreViewOf<T, M>),
+  options?: StoreOptions,
+): StoreViewOf<T, M>;
+export function createStore<T extends StateConstraint, M extends boolean = true>(
+  factory: T | StoreViewOf<T, M> | (() => StoreViewOf<T, M>),
+  options: StoreOptions = {},
 ): StoreViewOf<T, M> {
   if (isStore<PathMap<T>, M>(factory)) {
     return factory;
@@ -348,16 +705,39 @@ export function createStore<T extends StateConstraint, M extends boolean = true>
   if (typeof factory === "function") {
     return (factory as () => StoreViewOf<T, M>)();
   }
-  const store = freeze<StoreViewOf<T, M>>({
-    [brand]: freeze([true as M, null as unknown as PathMap<T>] as const),
+  return newStore(factory as StateValue, options, null, {}) as StoreViewOf<T, M>;
+}
+
+// Creates a root store object and its implementation, with any extra properties for the store object
+function newStore(
+  state: StateValue,
+  options: StoreOptions,
+  derived: Derivation | null,
+  props: object,
+): StoreView {
+  const store = freeze<StoreView>({
+    [brand]: freeze([true, null as unknown as AnyState] as const),
     root: null,
     prefix: "",
+    ...props,
   });
   const storeImpl = preventExtensions<StoreImpl>({
-    _state: patchStateValue(null, "", factory as StateValue, null, null),
+    _state: patchStateValue(null, "", state, null, null, !!options.literalNull),
+    _batchState: null,
     _listeners: new Map(),
+    _patternListeners: new Map(),
     _extListeners: new Map(),
     _queuedUpdates: [],
+    _transactions: 0,
+    _flushing: false,
+    _schedule: resolveScheduler(options.scheduler || "sync"),
+    _scheduled: false,
+    _interceptors: [],
+    _afterUpdate: new Set(),
+    _literalNull: !!options.literalNull,
+    _observers: 0,
+    _derived: derived,
+    _initial: state,
   });
   implMap.set(store, storeImpl);
   return store;
@@ -368,7 +748,9 @@ export function createStore<T extends StateConstraint, M extends boolean = true>
  * @param store The Store object to destroy
  */
 export function destroyStore(store: StoreView): void {
-  implMap.delete(store.root || store);
+  getWritableImpl(store);
+  implMap.delete(getRoot(store));
+  destroyedStores.add(getRoot(store));
 }
 
 /**
@@ -379,7 +761,7 @@ export function destroyStore(store: StoreView): void {
 export function isStore<T extends AnyState, M extends boolean = true>(
   value: unknown,
 ): value is StoreView<T, M> {
-  return implMap.has(value as StoreView);
+  return implMap.has(readonlyRoots.get(value as StoreView) || (value as StoreView));
 }
 
 /**
@@ -394,52 +776,251 @@ export function peek<T extends AnyState, P extends keyof T>(
   store: StoreView<T>,
   path: P = "" as P,
 ): T[P] {
-  return deepIndex(getImpl(store)._state, concatPath(store.prefix, path)) as T[P];
+  return deepIndex(readState(getImpl(store)), concatPath(store.prefix, path)) as T[P];
+}
+
+// Returns the current state, first bringing a computed store up to date with its sources
+function readState(impl: StoreImpl): StateValue {
+  impl._derived?._refresh();
+  return impl._state;
+}
+
+// Tracks the number of listeners, so that computed stores only watch their sources while they are observed
+function observe(impl: StoreImpl, delta: number): void {
+  impl._observers += delta;
+  if (impl._observers === (delta > 0 ? 1 : 0)) {
+    impl._derived?._observe(delta > 0);
+  }
+}
+
+/**
+ * Checks if a path is a glob-style pattern, containing `*` or `**` segments.
+ * @param path The path to check
+ * @returns True if the path is a pattern, false otherwise
+ */
+export function isPathPattern(path: PropertyKey): boolean {
+  return isPatternSegments(segments(path));
+}
+
+/**
+ * Retrieves all path-value pairs in the store's state whose paths match a glob-style pattern.
+ * `*` matches exactly one path segment, and `**` matches any number of segments.
+ * @param store The Store object
+ * @param pattern The pattern to match
+ * @returns An array of matching path-value pairs
+ */
+export function peekMatches<T extends AnyState, P extends string>(
+  store: StoreView<T>,
+  pattern: PathPattern<T, P>,
+): ListenPair<Pick<T, PatternMatch<T, P>>>[] {
+  const patternSegments = segments(concatPath(store.prefix, pattern));
+  const firstWildcard = patternSegments.findIndex((segment) => isPatternSegments([segment]));
+  const basePath = patternSegments.slice(0, firstWildcard).map(escapeKey).join(".");
+  const pairs: [PropertyKey, StateValue][] = [];
+  forEachPath(deepIndex(readState(getImpl(store)), basePath), basePath, (path, value) => {
+    if (value !== undefined && matchSegments(patternSegments, segments(path))) {
+      pairs.push([path, value]);
+    }
+  });
+  return pairs as unknown as ListenPair<Pick<T, PatternMatch<T, P>>>[];
 }
 
 /**
  * Registers a listener function that is called whenever the value at the specified path changes.
+ * The path may also be a glob-style pattern (see {@link PathPattern}), in which case the listener receives each matching path that changed.
  * @param store The Store object
- * @param path The path to listen to
+ * @param path The path or pattern to listen to
  * @param listener The listener function to call on changes
+ * @param initialNotify Whether to call the listener immediately with the current value, or every currently matching value for a pattern (default: false)
  * @returns A function to unregister the listener
  */
+export function listen<T extends AnyState, P extends keyof T>(
+  store: StoreView<T>,
+  path: P,
+  listener: (value: T[P], path: P) => void,
+  initialNotify?: boolean,
+): () => void;
+export function listen<T extends AnyState, P extends string>(
+  store: StoreView<T>,
+  pattern: PathPattern<T, P>,
+  listener: (value: T[PatternMatch<T, P>], path: PatternMatch<T, P>) => void,
+  initialNotify?: boolean,
+): () => void;
 export function listen<T extends AnyState, P extends keyof T>(
   store: StoreView<T>,
   path: P,
   listener: (value: T[P], path: P) => void,
   initialNotify = false,
+): () => void {
+  if (DEV) {
+    const impl = getImpl(store);
+    const fullPath = concatPath(store.prefix, path);
+    const isPattern = isPathPattern(fullPath);
+    if ((isPattern ? impl._patternListeners : impl._listeners).get(fullPath)?.has(listener)) {
+      warn(
+        `The same listener was subscribed to "${String(fullPath)}" twice. It will only be called once.`,
+      );
+    }
+    if (
+      !isPattern &&
+      !impl._derived &&
+      !isKnownPath(impl._initial, fullPath) &&
+      !isKnownPath(impl._state, fullPath)
+    ) {
+      warn(
+        `Listening to "${String(fullPath)}", which is not in the store's state. Check the path for typos.`,
+      );
+    }
+  }
+  return addListener(store, path, listener, initialNotify);
+}
+
+// Registers a listener without any diagnostics, for internal subscriptions to paths that may not exist yet
+function addListener<T extends AnyState, P extends keyof T>(
+  store: StoreView<T>,
+  path: P,
+  listener: (value: T[P], path: P) => void,
+  initialNotify: boolean,
 ): () => void {
   const impl = getImpl(store);
   const fullPath = concatPath(store.prefix, path);
-  let listeners = impl._listeners.get(fullPath);
+  const isPattern = isPathPattern(fullPath);
+  const listenerMap = isPattern ? impl._patternListeners : impl._listeners;
+  let listeners = listenerMap.get(fullPath);
   if (!listeners) {
     listeners = new Set();
-    impl._listeners.set(fullPath, listeners);
+    listenerMap.set(fullPath, listeners);
+  }
+  if (!listeners.has(listener)) {
+    // A computed store starts watching its sources here, before the listener is added, so it isn't notified of the initial computation
+    observe(impl, 1);
+    listeners.add(listener);
   }
-  listeners.add(listener);
   if (initialNotify) {
-    listener(peek(store, path), path);
+    if (isPattern) {
+      for (const [matchPath, value] of peekMatches<AnyState, string>(
+        store as StoreView,
+        path as string,
+      )) {
+        listener(value as T[P], matchPath as P);
+      }
+    } else {
+      listener(peek(store, path), path);
+    }
   }
-  return () => listeners.delete(listener);
+  return () => {
+    if (listeners.delete(listener)) {
+      observe(impl, -1);
+    }
+  };
 }
 
 /**
  * Registers a listener function that is called whenever any value in the store changes.
- * The listener receives an array of path-value pairs representing all changed paths and their new values (with `null` for deleted keys).
+ * The listener receives an array of path-value pairs representing all changed paths and their new values,
+ * with `null` for deleted keys (or {@link DELETE} if the store was created with the `literalNull` option), so that they can be replayed with `update`.
  * @param store The Store object
  * @param listener The listener function to call on changes
- * @param includeObjects Whether to include changes to object and array values (default: false). If false, only changes to primitive values will be included.
+ * @param includeObjects Whether to include changes to object and array values (default: false). If false, only changes to primitive values will be included,
+ * along with objects and arrays that replace a missing value or a value of another kind, such as an empty object being added.
  * @returns A function to unregister the listener
  */
 export function listenAll<T extends AnyState>(
   store: StoreView<T>,
-  listener: (pairs: readonly Readonly<ListenPair<T>>[]) => void,
+  listener: (pairs: readonly Readonly<ListenPair<T> | [keyof T, typeof DELETE]>[]) => void,
   includeObjects = false,
 ): () => void {
-  const { _extListeners } = getImpl(store);
-  _extListeners.set(listener, includeObjects);
-  return () => _extListeners.delete(listener);
+  const impl = getImpl(store);
+  if (!impl._extListeners.has(listener)) {
+    observe(impl, 1);
+  } else if (DEV) {
+    warn("The same listener was subscribed to all changes twice. It will only be called once.");
+  }
+  impl._extListeners.set(listener, includeObjects);
+  return () => {
+    if (impl._extListeners.delete(listener)) {
+      observe(impl, -1);
+    }
+  };
+}
+
+/**
+ * Registers a function that intercepts queued updates before they are applied to the state.
+ * The interceptor receives a path-patch pair targeting the given path (or any path matching the given pattern),
+ * and returns the pairs to apply instead: the same pair to allow it, a modified pair to transform it,
+ * several pairs to split it, or an empty array to veto it.
+ * Patches made to a parent path are split into their individual keys so that the interceptor still sees them,
+ * and updater functions are resolved to their result before the interceptor is called.
+ * Updates to paths nested below the intercepted path are not matched; use a `**` pattern to include them.
+ * Paths are always relative to the root store, as with listeners. Interceptors run in the order they are registered.
+ * @param store The Store object
+ * @param path The path or pattern to intercept
+ * @param interceptor The function to call for each matching update
+ * @returns A function to unregister the interceptor
+ * @example
+ * ```ts
+ * // Clamp quantities to be non-negative
+ * intercept(store, "items.*.qty", ([path, qty]) => [[path, Math.max(0, qty ?? 0)]]);
+ * // Block all writes to a section of the state
+ * intercept(store, "config.**", () => []);
+ * ```
+ */
+export function intercept<T extends AnyState, P extends keyof T>(
+  store: StoreView<T>,
+  path: P,
+  interceptor: (pair: readonly [P, PatchValue<T[P]>]) => readonly PatchPair<T>[],
+): () => void;
+export function intercept<T extends AnyState, P extends string>(
+  store: StoreView<T>,
+  pattern: PathPattern<T, P>,
+  interceptor: (pair: PatchPair<Pick<T, PatternMatch<T, P>>>) => readonly PatchPair<T>[],
+): () => void;
+export function intercept(
+  store: StoreView,
+  path: PropertyKey,
+  interceptor: AnyInterceptor,
+): () => void {
+  const { _interceptors } = getWritableImpl(store);
+  const entry: StoreImpl["_interceptors"][number] = [
+    segments(concatPath(store.prefix, path)),
+    interceptor,
+  ];
+  _interceptors.push(entry);
+  return () => {
+    const i = _interceptors.indexOf(entry);
+    if (i >= 0) {
+      _interceptors.splice(i, 1);
+    }
+  };
+}
+
+/**
+ * Registers a hook that is called after each batch of changes has been applied, before any listeners are notified.
+ * The hook receives a map of every changed path to its new value (with `undefined` for deleted keys).
+ * @param store The Store object
+ * @param hook The function to call after each batch
+ * @returns A function to unregister the hook
+ */
+export function afterUpdate<T extends AnyState>(
+  store: StoreView<T>,
+  hook: (changes: ReadonlyMap<keyof T, T[keyof T]>) => void,
+): () => void {
+  const { _afterUpdate } = getImpl(store);
+  const anyHook = hook as (changes: ReadonlyMap<PropertyKey, StateValue>) => void;
+  _afterUpdate.add(anyHook);
+  return () => _afterUpdate.delete(anyHook);
+}
+
+/**
+ * Retrieves the states of the root store before and after a batch of changes, from the pairs that were delivered for it to a `listenAll` listener.
+ * The pairs only say which paths changed, so this is useful to tell additions from replacements, as {@link toJsonPatch} does.
+ * @param pairs The pairs passed to a listener registered with `listenAll`
+ * @returns The states before and after the batch, or undefined if the pairs weren't delivered by `listenAll`
+ */
+export function getBatchStates(
+  pairs: readonly unknown[],
+): readonly [previous: unknown, next: unknown] | undefined {
+  return batchStates.get(pairs);
 }
 
 /**
@@ -450,7 +1031,7 @@ export function listenAll<T extends AnyState>(
 export function getPrimitiveEntries<T extends AnyState>(store: StoreView<T>): ListenPair<T>[] {
   const impl = getImpl(store);
   const notify = new Map<PropertyKey, StateValue>();
-  patchStateValue(undefined, "", impl._state, notify, null);
+  patchStateValue(undefined, "", readState(impl), notify, null, impl._literalNull);
   return arrayFrom(notify.entries()).filter(([, value]) => isAtomic(value)) as ListenPair<T>[];
 }
 
@@ -479,77 +1060,447 @@ export function focus<
   T extends Record<PropertyKey, StateConstraint>,
   P extends keyof T,
   M extends boolean,
->(store: StoreView<T, M>, path: P): StoreView<Focus<T, P>, M> {
+  L extends boolean,
+>(store: StoreView<T, M, L>, path: P): StoreView<Focus<T, P>, M, L> {
   if (path === "") {
-    return store as StoreView<Focus<T, P>, M>;
+    return store as StoreView<Focus<T, P>, M, L>;
   }
-  return freeze<StoreView<Focus<T, P>, M>>({
-    [brand]: store[brand] as [M, Focus<T, P>],
+  const view = freeze<StoreView<Focus<T, P>, M, L>>({
+    [brand]: store[brand] as [M, Focus<T, P>, L],
     root: store.root || store,
     prefix: concatPath(store.prefix, path),
   });
+  if (readonlyStores.has(store)) {
+    readonlyStores.add(view);
+  }
+  return view;
+}
+
+/**
+ * Creates a view of a store that can be read and listened to, but throws an error when it is written to,
+ * or when it is used to register interceptors or destroy the store. Sub-stores created from it with {@link focus} are read-only too.
+ * Unlike the read-only `StoreView<T, false>` type, this can't be bypassed by casting it back to a `Store`,
+ * so it is safe to hand to code that shouldn't modify the state. Stores returned by {@link computed} are always read-only.
+ * @param store The Store object
+ * @returns A read-only view of the store
+ */
+export function readonly<T extends AnyState, M extends boolean, L extends boolean>(
+  store: StoreView<T, M, L>,
+): StoreView<T, false, L> {
+  getImpl(store);
+  if (readonlyStores.has(store)) {
+    return store as StoreView as StoreView<T, false, L>;
+  }
+  const root = store.root || store;
+  let rootView = readonlyViews.get(root);
+  if (!rootView) {
+    // The view of the root store is the `root` of every read-only view, so casting it back to a Store doesn't allow writes either
+    rootView = freeze<StoreView>({ [brand]: root[brand], root: null, prefix: "" });
+    readonlyStores.add(rootView);
+    readonlyRoots.set(rootView, root);
+    readonlyViews.set(root, rootView);
+  }
+  if (store === root) {
+    return rootView as StoreView<T, false, L>;
+  }
+  const view = freeze<StoreView<T, false, L>>({
+    [brand]: store[brand] as unknown as [false, T, L],
+    root: rootView,
+    prefix: store.prefix,
+  });
+  readonlyStores.add(view);
+  return view;
+}
+
+// Checks whether a patch, as passed to interceptors, would change the current value
+function isChange(current: StateValue, patch: AnyPatch | undefined, literalNull: boolean): boolean {
+  const [value, exact] = resolvePatch(patch, current, false);
+  if (exact) {
+    return diff(current, value as StateValue).length > 0;
+  }
+  if (value === DELETE || (value === null && !literalNull)) {
+    return current !== undefined;
+  }
+  if (isAtomic(value) || isAtomic(current)) {
+    return value !== undefined && value !== current;
+  }
+  return objectKeys(value).some((key) =>
+    isChange(index(current, key), index(value as StateValue, key) as AnyPatch, literalNull),
+  );
+}
+
+/**
+ * Rejects writes to a path and everything nested within it, by throwing an error from an interceptor (see {@link intercept}).
+ * Writes that leave the locked values unchanged are allowed. With a deferred scheduler, the error is thrown when the changes are applied.
+ * As with other errors during an update, the whole batch is discarded.
+ * @param store The Store object
+ * @param path The path to lock
+ * @returns A function to unlock the path
+ */
+export function lock<T extends AnyState, P extends keyof T>(store: Store<T>, path: P): () => void {
+  const impl = getWritableImpl(store);
+  return intercept(store as StoreView as Store, concatPath(path, "**") as string, (pair) => {
+    const [changedPath, patch] = pair as readonly [PropertyKey, AnyPatch];
+    if (isChange(deepIndex(impl._batchState, changedPath), patch, impl._literalNull)) {
+      throw new Error(`Cannot write to "${String(changedPath)}", which is locked`);
+    }
+    return [pair as PatchPair<AnyState>];
+  });
 }
 
 /**
- * Creates a derived read-only store whose state is computed using the provided function whenever the value at the specified path changes.
+ * A store and a path within it, used as a source for {@link computed}.
+ */
+export type ComputedSource<T extends AnyState = AnyState> = {
+  [P in keyof T]: readonly [store: StoreView<T>, path: P];
+}[keyof T];
+
+type SourceValues<S extends readonly ComputedSource[]> = {
+  [I in keyof S]: S[I] extends readonly [StoreView<infer T>, infer P]
+    ? P extends keyof T
+      ? T[P]
+      : never
+    : never;
+};
+
+/**
+ * A read-only store returned by {@link computed}, which can be disposed when it is no longer needed.
+ */
+export type ComputedStore<V extends StateConstraint> = StoreViewOf<V> & {
+  /**
+   * Stops watching the sources. The store keeps its last value, and is no longer updated.
+   */
+  readonly dispose: () => void;
+};
+
+/**
+ * Creates a derived read-only store whose state is computed using the provided function from the values at one or more source paths.
+ * The computation is lazy: the sources are only watched while the derived store has listeners, and otherwise the value is
+ * recomputed when it is read, if any source value has changed. The result replaces the previous value exactly, so only paths
+ * whose values changed are notified. Reading a computed store brings its own sources up to date first, so computed stores that
+ * depend on each other never see a mix of old and new values.
  * @param store The source StoreView object
  * @param path The path in the source store to derive from
  * @param computeFn The function to compute the derived state from the source state value
+ * @returns The derived store
+ * @example
+ * ```ts
+ * const total = computed(
+ *   [[cart, "items"], [settings, "taxRate"]],
+ *   (items, taxRate) => ({ value: sum(items) * (1 + taxRate) }),
+ * );
+ * ```
  */
 export function computed<T extends AnyState, P extends keyof T, V extends StateConstraint>(
   store: StoreView<T>,
   path: P,
   computeFn: (stateValue: T[P]) => V,
-): StoreViewOf<V> {
-  const derived = createStore<V>(undefined as unknown as V);
-  listen(store, path, (newValue) => patch(derived, computeFn(newValue)), true);
-  return derived;
+): ComputedStore<V>;
+export function computed<const S extends readonly ComputedSource[], V extends StateConstraint>(
+  sources: S,
+  computeFn: (...values: SourceValues<S>) => V,
+): ComputedStore<V>;
+export function computed(
+  storeOrSources: StoreView | readonly ComputedSource[],
+  pathOrFn: PropertyKey | ((...values: never[]) => StateConstraint),
+  fn?: (value: never) => StateConstraint,
+): ComputedStore<StateConstraint> {
+  const [sources, computeFn] = (
+    fn ? [[[storeOrSources, pathOrFn]], fn] : [storeOrSources, pathOrFn]
+  ) as [readonly ComputedSource[], (...values: unknown[]) => StateValue];
+  return derive(() => {
+    const values = sources.map(([source, path]) => peek(source, path));
+    return [sources, values, computeFn(...values)];
+  });
 }
 
-type PatchStack = [
-  current: StateValue,
-  next: StateValue,
-  path: PropertyKey,
-  key: string,
-  keys: string[] | null,
-  changes: [string, StateValue][],
-][];
+// Creates a lazily computed store. `run` computes its state, returning the sources it read along with their values,
+// and is only called again once one of those values has changed.
+function derive(
+  run: () => readonly [sources: readonly ComputedSource[], values: unknown[], state: StateValue],
+): ComputedStore<StateConstraint> {
+  let sources: readonly ComputedSource[] = [];
+  let values: unknown[] | null = null;
+  let unsubscribes: (() => void)[] = [];
+  let observed = false;
+  let computing = false;
+  let disposed = false;
+  const subscribe = () => {
+    for (const unsubscribe of unsubscribes) {
+      unsubscribe();
+    }
+    unsubscribes =
+      observed && !disposed
+        ? sources.map(([source, path]) => addListener(source, path, refresh, false))
+        : [];
+  };
+  const refresh = () => {
+    if (computing || disposed) {
+      return;
+    }
+    computing = true;
+    try {
+      // Reading a computed source refreshes it first, which keeps chains of computed stores consistent
+      if (!values || sources.some(([source, path], i) => peek(source, path) !== values?.[i])) {
+        const previous = sources;
+        let state: StateValue;
+        [sources, values, state] = run();
+        enqueue(getImpl(derived), [["", replace(state)]]);
+        if (
+          previous.length !== sources.length ||
+          sources.some(([source, path], i) => source !== previous[i][0] || path !== previous[i][1])
+        ) {
+          subscribe();
+        }
+      }
+    } finally {
+      computing = false;
+    }
+  };
+  const derived = newStore(
+    undefined,
+    {},
+    {
+      _refresh: refresh,
+      _observe: (isObserved) => {
+        observed = isObserved;
+        subscribe();
+        refresh();
+      },
+    },
+    {
+      dispose: () => {
+        disposed = true;
+        subscribe();
+      },
+    },
+  );
+  readonlyStores.add(derived);
+  return derived as ComputedStore<StateConstraint>;
+}
 
-function descend(stack: PatchStack, segment: string, keys: string[] | null): void {
-  const [current, next, path] = stack[stack.length - 1];
-  const current1 = index(current, segment);
-  const next1 = index(next, segment) as StateValue | ((prev: StateValue) => StateValue);
-  stack.push([
-    current1,
-    typeof next1 === "function" ? next1(current1) : next1,
-    concatPath(path, segment),
-    segment,
-    keys,
-    [],
-  ]);
+/**
+ * Creates a derived read-only store from a selector function, which receives the state of the source store.
+ * The paths that the selector reads are recorded by passing it a read-tracking proxy of the state, and the selector is
+ * re-run only when the value at one of those paths changes. The recorded paths are updated on each run, so branches
+ * that are read conditionally are tracked as needed. Like {@link computed}, the store is lazy and can be disposed.
+ * Selectors should be pure, and only read the state through their argument. Objects from the state that are returned
+ * or iterated over are tracked as a whole.
+ * @param store The source StoreView object
+ * @param selector The function to compute the derived state from the source state
+ * @returns The derived store
+ * @example
+ * ```ts
+ * const visible = select(store, (state) =>
+ *   state.filter === "done" ? state.todos.filter((todo) => todo.done) : state.todos,
+ * );
+ * ```
+ */
+export function select<T extends AnyState, V extends StateConstraint>(
+  store: StoreView<T>,
+  selector: (state: T[""]) => V,
+): ComputedStore<V> {
+  return derive(() => {
+    const [paths, state] = track(peek(store) as StateValue, selector);
+    return [paths.map((path) => [store, path]), paths.map((path) => peek(store, path)), state];
+  }) as ComputedStore<V>;
 }
 
-function patchStateValue(
-  state: StateValue,
-  selector: PropertyKey,
-  patch: StateValue | ((prev: StateValue) => StateValue),
-  notify: Map<PropertyKey, StateValue> | null,
-  removedObjects: Set<PropertyKey> | null,
-): StateValue {
-  // Setup the stack: add initial descent steps for each segment in the selector
-  // We set `keys` to empty so that parent elements are never iterated-over
-  const stack: PatchStack = [[state, undefined, "", "", [], []]];
-  for (const segment of segments(selector)) {
-    descend(stack, segment, []);
-  }
-  // Set the patch value at the bottom of the stack to kick-off the patching process
+// Runs a selector with a proxy of the state, returning the paths it read along with its result
+function track(
+  root: StateValue,
+  selector: (state: never) => StateConstraint,
+): [paths: string[], result: StateValue] {
+  // Paths whose values were read directly, or whose keys were listed
+  const reads = new Set<string>();
+  // Paths of objects that were only traversed, which are tracked as a whole unless any of their descendants were read
+  const traversed = new Set<string>();
+  const proxies = new Map<object, [value: StateValue, path: string]>();
+  const wrap = (value: StateValue, path: string): StateValue => {
+    if (isAtomic(value)) {
+      reads.add(path);
+      return value;
+    }
+    traversed.add(path);
+    // The state is frozen, and proxies must return frozen properties as-is, so the proxy target is an unfrozen copy
+    const proxy = new Proxy(isArray(value) ? [...value] : { ...value }, {
+      get: (target, key, receiver) =>
+        typeof key === "string" && (hasOwn.call(value, key) || !(key in value))
+          ? wrap(index(value, key), childPath(path, key) as string)
+          : Reflect.get(target, key, receiver),
+      has: (target, key) => {
+        // Array methods check for each index before reading it, so this only tracks the item if nothing inside it is read
+        if (typeof key === "string") {
+          traversed.add(childPath(path, key) as string);
+        }
+        return Reflect.has(target, key);
+      },
+      ownKeys: (target) => {
+        reads.add(path);
+        return Reflect.ownKeys(target);
+      },
+    });
+    proxies.set(proxy, [value, path]);
+    return proxy;
+  };
+  // Returned proxies are replaced with the state they wrap, which is then tracked as a whole
+  const unwrap = (value: StateValue): StateValue => {
+    const proxied = proxies.get(value as object);
+    if (proxied) {
+      reads.add(proxied[1]);
+      return proxied[0];
+    }
+    if (!isAtomic(value) && !isFrozen(value)) {
+      const object = value as Record<string, StateValue>;
+      for (const key of objectKeys(object)) {
+        object[key] = unwrap(object[key]);
+      }
+    }
+    return value;
+  };
+  const result = unwrap(selector(wrap(root, "") as never) as StateValue);
+  for (const path of traversed) {
+    const prefix = path === "" ? "" : `${path}.`;
+    const isRead = (other: string) => other !== path && other.startsWith(prefix);
+    if (![...reads, ...traversed].some(isRead)) {
+      reads.add(path);
+    }
+  }
+  return [[...reads], result];
+}
+
+/**
+ * An item of an array tracked by {@link keyedItems}.
+ */
+export type KeyedItem<T extends StateConstraint, M extends boolean = boolean> = {
+  /**
+   * The key returned by `keyBy` for this item.
+   */
+  readonly key: string | number;
+  /**
+   * A Store holding the item, which stays with it when the array is reordered.
+   */
+  readonly store: StoreViewOf<T, M>;
+  /**
+   * The current index of the item in the array.
+   */
+  readonly index: number;
+};
+
+/**
+ * Tracks the items of an array by key, giving each item its own Store that follows it when the array is reordered.
+ * Call this again with the previous result whenever the array changes: item stores are re-used by key and updated
+ * with their item's new value, so listeners on an item store are only notified when that item actually changes.
+ * Changes made through an item store are written back to the item's current index in the array, unless the array is read-only.
+ * Item stores whose keys are no longer present are destroyed.
+ * @param store The StoreView containing the array
+ * @param keyBy Returns a unique key for each item
+ * @param previous The result of the previous call, if any
+ * @returns The tracked items, in array order
+ */
+export function keyedItems<T extends StateConstraint, M extends boolean>(
+  store: StoreViewOf<readonly T[], M>,
+  keyBy: (item: T, index: number) => string | number,
+  previous: readonly KeyedItem<T, M>[] = [],
+): KeyedItem<T, M>[] {
+  type MutableItem = { -readonly [K in keyof KeyedItem<T, M>]: KeyedItem<T, M>[K] };
+  const previousByKey = new Map(previous.map((item) => [item.key, item as MutableItem]));
+  const items = (peek(store, "") || []).map((value, index) => {
+    const key = keyBy(value, index);
+    let item = previousByKey.get(key);
+    previousByKey.delete(key);
+    if (item) {
+      item.index = index;
+      syncingItems.add(item.store);
+      try {
+        patch(item.store as StoreOf<T>, replace<T>(value));
+      } finally {
+        syncingItems.delete(item.store);
+      }
+    } else {
+      const newItem: MutableItem = { key, store: createStore<T, M>(value), index };
+      // Changes to the item are written back, unless the array can't be written to or the item is being updated from it
+      if (!readonlyStores.has(store)) {
+        listen(newItem.store, "", (itemValue) => {
+          if (!syncingItems.has(newItem.store)) {
+            update(store as StoreView as Store, [newItem.index, replace(itemValue)]);
+          }
+        });
+      }
+      item = newItem;
+    }
+    return item as KeyedItem<T, M>;
+  });
+  for (const item of previousByKey.values()) {
+    destroyStore(item.store);
+  }
+  return items;
+}
+
+type PatchStack = [
+  current: StateValue,
+  next: PatchedValue,
+  path: PropertyKey,
+  key: string,
+  keys: string[] | null,
+  changes: [string, PatchedValue][],
+  exact: boolean,
+][];
+
+// Resolves updater functions and `replace` markers, returning the value to apply and whether it replaces `current` exactly
+function resolvePatch(
+  patch: AnyPatch | undefined,
+  current: StateValue,
+  exact: boolean,
+): [value: PatchedValue, exact: boolean] {
+  if (isReplacement(patch)) {
+    patch = patch[replacement];
+    exact = true;
+  }
+  const value = typeof patch === "function" ? patch(current) : patch;
+  // When replacing exactly, anything missing from the new value is deleted
+  return [exact && value === undefined ? DELETE : value, exact];
+}
+
+function descend(stack: PatchStack, segment: string, keys: string[] | null): void {
+  const [current, next, path, , , , exact] = stack[stack.length - 1];
+  const current1 = index(current, segment);
+  const [next1, exact1] = resolvePatch(
+    index(next as StateValue, segment) as AnyPatch,
+    current1,
+    exact,
+  );
+  stack.push([current1, next1, childPath(path, segment), segment, keys, [], exact1]);
+}
+
+function patchStateValue(
+  state: StateValue,
+  selector: PropertyKey,
+  patch: AnyPatch,
+  notify: Map<PropertyKey, StateValue> | null,
+  removedObjects: Map<PropertyKey, StateValue> | null,
+  literalNull = false,
+): StateValue {
+  // Setup the stack: add initial descent steps for each segment in the selector
+  // We set `keys` to empty so that parent elements are never iterated-over
+  const stack: PatchStack = [[state, undefined, "", "", [], [], false]];
+  for (const segment of segments(selector)) {
+    const [parent, , path] = stack[stack.length - 1];
+    if (DEV && parent != null && isAtomic(parent)) {
+      warn(
+        `Writing to "${String(selector)}" replaces the value at "${String(path)}", which is not an object.`,
+      );
+    }
+    descend(stack, segment, []);
+  }
+  // Set the patch value at the bottom of the stack to kick-off the patching process
   const lastStack = stack[stack.length - 1];
-  lastStack[1] = typeof patch === "function" ? patch(lastStack[0]) : (patch as StateValue);
+  [lastStack[1], lastStack[6]] = resolvePatch(patch, lastStack[0], false);
   lastStack[4] = null;
   const recursionCheck = new WeakSet();
   while (true) {
-    const [current, next, path, key, keys, changes] = stack[stack.length - 1];
-    let newValue: StateValue;
+    const [current, next, path, key, keys, changes, exact] = stack[stack.length - 1];
+    let newValue: PatchedValue;
     if (keys) {
       // If `keys` is not null, we are iterating over the keys of `next`, or have finished iterating
       const nextKey = keys.pop();
@@ -559,14 +1510,24 @@ function patchStateValue(
         continue;
       }
       // Finished iterating over keys; check for changes
-      if (changes.length > 0) {
+      if (
+        changes.length > 0 &&
+        exact &&
+        isFrozen(next) &&
+        changes.every(([k, v]) =>
+          v === DELETE ? !(k in (next as object)) : v === index(next as StateValue, k),
+        )
+      ) {
+        // The result would be identical to the replacement, so keep its reference
+        newValue = next;
+      } else if (changes.length > 0) {
         const oldEntries = current && typeof current === "object" ? objectEntries(current) : [];
         if (isArray(current)) {
           oldEntries.push(["length", current.length]);
         }
         const changesMap = new Map(oldEntries);
         for (const [k, v] of changes) {
-          if (v === null) {
+          if (v === DELETE) {
             changesMap.delete(k);
           } else if (v !== undefined) {
             changesMap.set(k, v);
@@ -578,12 +1539,22 @@ function patchStateValue(
       // If no changes, keep the current value
     } else if (current === next) {
       // No changes
+      if (DEV) {
+        checkAtom(current, path);
+      }
     } else if (isAtomic(next)) {
-      // New value can be replaced directly, no need to merge
-      newValue = next;
+      if (DEV) {
+        checkAtom(next, path);
+      }
+      // New value can be replaced directly, no need to merge. Objects handled by a codec are frozen like the rest of the state.
+      if (next === null && !literalNull) {
+        newValue = DELETE;
+      } else {
+        newValue = next && typeof next === "object" && !next[atom] ? freeze(next) : next;
+      }
       if (typeof current === "object" && current && removedObjects) {
         // If the current value is an object and is being replaced, we need to mark it as removed so that listeners for its sub-paths are notified of deletion.
-        removedObjects.add(path);
+        removedObjects.set(path, current);
       }
     } else {
       // We need to merge `current` and `next` by iterating over the keys of `next`
@@ -594,6 +1565,10 @@ function patchStateValue(
       if (isArray(next)) {
         keys.push("length");
       }
+      if (exact && current && typeof current === "object") {
+        // Delete the keys that are missing from the replacement
+        keys.push(...missingKeys(current, next as object));
+      }
       if (keys.length === 0 && isAtomic(current)) {
         // Replacing a primitive with an empty object, which otherwise returns no changes.
         newValue = freeze({});
@@ -608,12 +1583,13 @@ function patchStateValue(
     stack.pop();
     // If there is a new value, record the change:
     if (newValue !== undefined) {
-      notify?.set(path, newValue ?? undefined);
+      const value = newValue === DELETE ? undefined : newValue;
+      notify?.set(path, value);
       if (stack.length) {
         stack[stack.length - 1][5].push([key, newValue]);
       } else {
         // If the stack is empty, we're done
-        return newValue;
+        return value;
       }
     }
     // If the stack is empty with no new value, return the original state
@@ -626,28 +1602,149 @@ function patchStateValue(
 type Key = string | number;
 
 function applyChanges(impl: StoreImpl): void {
+  impl._flushing = true;
   try {
     processChangeQueue(impl);
   } catch (error) {
     // Clear the queue so it doesn't lock up
     impl._queuedUpdates.length = 0;
     throw error;
+  } finally {
+    impl._flushing = false;
+  }
+}
+
+// Applies the queued changes now, or schedules them to be applied later if the store has a scheduler
+function requestFlush(impl: StoreImpl): void {
+  if (!impl._schedule) {
+    applyChanges(impl);
+  } else if (!impl._scheduled) {
+    impl._scheduled = true;
+    impl._schedule(() => flushImpl(impl));
+  }
+}
+
+function flushImpl(impl: StoreImpl): void {
+  if (!impl._flushing && !impl._transactions) {
+    impl._scheduled = false;
+    applyChanges(impl);
+  }
+}
+
+/**
+ * Immediately applies any changes that are waiting for the store's scheduler, notifying listeners synchronously.
+ * This is useful in tests, or before reading the state of a store that uses a deferred {@link Scheduler}.
+ * It has no effect when called from within a listener or transaction.
+ * @param store The Store object
+ */
+export function flush(store: StoreView): void {
+  flushImpl(getImpl(store));
+}
+
+// Passes an update through the interceptors, starting at index `i`, returning the resulting updates
+function interceptUpdate(
+  interceptors: StoreImpl["_interceptors"],
+  state: StateValue,
+  path: PropertyKey,
+  patch: AnyPatch,
+  i: number,
+): (readonly [PropertyKey, AnyPatch])[] {
+  if (i === interceptors.length) {
+    return [[path, patch]];
+  }
+  const [pattern, interceptor] = interceptors[i];
+  const pathSegments = segments(path);
+  const isMatch = matchSegments(pattern, pathSegments);
+  if (!isMatch && !matchDescendant(pattern, pathSegments)) {
+    return interceptUpdate(interceptors, state, path, patch, i + 1);
+  }
+  const current = deepIndex(state, path);
+  const [value, exact] = resolvePatch(patch, current, false);
+  // Values within an exact replacement are passed on as `replace` markers, so that they stay exact
+  const wrap = (child: AnyPatch | undefined): AnyPatch | undefined => {
+    if (!exact || (isAtomic(child) && typeof child !== "function")) {
+      return exact && child === undefined ? DELETE : child;
+    }
+    return replace(child as StateValue);
+  };
+  if (isMatch) {
+    return interceptor([path, wrap(value)]).flatMap(([newPath, newPatch]) =>
+      interceptUpdate(interceptors, state, newPath, newPatch, i + 1),
+    );
   }
+  const keys = isAtomic(value) ? [] : objectKeys(value);
+  if (exact && !isAtomic(value) && current && typeof current === "object") {
+    keys.push(...missingKeys(current, value));
+  }
+  if (!keys.length) {
+    // Nothing nested within this patch can match
+    return interceptUpdate(interceptors, state, path, wrap(value) as AnyPatch, i + 1);
+  }
+  // Split the patch into its keys, so the interceptor can see the nested paths it's interested in
+  if (isArray(value)) {
+    // Set the length first, so that it doesn't truncate any newly added items
+    keys.unshift("length");
+  }
+  return keys.flatMap((key) =>
+    interceptUpdate(
+      interceptors,
+      state,
+      childPath(path, key),
+      wrap(index(value as StateValue, key)),
+      i,
+    ),
+  );
 }
 
 function processChangeQueue(impl: StoreImpl) {
   while (impl._queuedUpdates.length > 0) {
     const notify = new Map<Key, StateValue>();
-    const removedObjects = new Set<Key>();
+    const removedObjects = new Map<Key, StateValue>();
     // Apply queued changes one 'batch' at a time.
     // This ensures that if listeners synchronously trigger more changes,
     // those will be processed in a separate batch after the current listeners have finished,
     // preventing infinite loops and ensuring a predictable order of operations.
     const batchLength = impl._queuedUpdates.length;
+    // The new state is only committed once the whole batch has been applied,
+    // so an error part-way through leaves the previous state intact.
+    const previous = impl._state;
+    let state = previous;
     for (let i = 0; i < batchLength; i++) {
       const [path, patch] = impl._queuedUpdates[i];
-      impl._state = patchStateValue(impl._state, path, patch, notify, removedObjects);
+      impl._batchState = state;
+      const pairs = impl._interceptors.length
+        ? interceptUpdate(impl._interceptors, state, path, patch, 0)
+        : [[path, patch] as const];
+      for (const [pairPath, pairPatch] of pairs) {
+        state = patchStateValue(
+          state,
+          pairPath,
+          pairPatch,
+          notify,
+          removedObjects,
+          impl._literalNull,
+        );
+      }
     }
+    impl._state = state;
+    for (const hook of impl._afterUpdate) {
+      hook(notify);
+    }
+
+    const patterns = arrayFrom(impl._patternListeners, ([pattern, listeners]) => [
+      segments(pattern),
+      listeners,
+    ]) as [string[], Set<(value: unknown, path: PropertyKey) => void>][];
+    const notifyPatterns = (changedPath: PropertyKey, value: StateValue) => {
+      const pathSegments = segments(changedPath);
+      for (const [pattern, listeners] of patterns) {
+        if (matchSegments(pattern, pathSegments)) {
+          for (const listener of listeners) {
+            listener(value, changedPath);
+          }
+        }
+      }
+    };
 
     for (const [changedPath, value] of notify) {
       const listeners = impl._listeners.get(changedPath);
@@ -656,7 +1753,18 @@ function processChangeQueue(impl: StoreImpl) {
           listener(value, changedPath);
         }
       }
+      if (patterns.length) {
+        notifyPatterns(changedPath, value);
+      }
       if (removedObjects.has(changedPath)) {
+        if (patterns.length) {
+          // Patterns can match any path within the removed object, so we need to walk its contents
+          forEachPath(removedObjects.get(changedPath), changedPath, (removedPath) => {
+            if (removedPath !== changedPath && !notify.has(removedPath as Key)) {
+              notifyPatterns(removedPath, undefined);
+            }
+          });
+        }
         const prefix = `${changedPath}.`;
         for (const [listenerPath, listeners] of impl._listeners) {
           if (
@@ -672,10 +1780,26 @@ function processChangeQueue(impl: StoreImpl) {
       }
     }
     if (impl._extListeners.size > 0) {
+      // Deleted paths are reported with a value that deletes them when passed to `update`
+      const deleted = impl._literalNull ? DELETE : null;
       const pairs = freeze(
-        arrayFrom(notify.entries()).map(([key, value]) => freeze([key, value ?? null] as const)),
+        arrayFrom(notify.entries()).map(([key, value]) =>
+          freeze([key, value === undefined ? deleted : value] as const),
+        ),
+      );
+      // Objects and arrays that replace a missing value, or a value of another kind, can't be rebuilt from the primitive pairs,
+      // so they are included too, before anything inside them
+      const primitivePairs = freeze(
+        pairs
+          .filter(([key, value]) => isAtomic(value) || !isSameKind(deepIndex(previous, key), value))
+          .sort(
+            (a, b) =>
+              +isAtomic(a[1]) - +isAtomic(b[1]) || (isAtomic(a[1]) ? 0 : depth(a[0]) - depth(b[0])),
+          ),
       );
-      const primitivePairs = freeze(pairs.filter(([, value]) => isAtomic(value)));
+      const states = freeze([previous, state] as const);
+      batchStates.set(pairs, states);
+      batchStates.set(primitivePairs, states);
       for (const [listener, includeObjects] of impl._extListeners) {
         listener(includeObjects ? pairs : primitivePairs);
       }
@@ -691,8 +1815,8 @@ function processChangeQueue(impl: StoreImpl) {
 /**
  * A tuple representing a path and its corresponding patch value, used for batch updates in the `update` function.
  */
-export type PatchPair<T extends AnyState> = {
-  [K in keyof T]: readonly [K, PatchValue<T[K]>];
+export type PatchPair<T extends AnyState, LiteralNull extends boolean = boolean> = {
+  [K in keyof T]: readonly [K, PatchValue<T[K], LiteralNull>];
 }[keyof T];
 
 /**
@@ -713,49 +1837,440 @@ export type ListenPair<T extends AnyState> = {
  * @param store The Store object
  * @param replacements Tuples of path-value pairs to set in the store
  */
-export function update<T extends AnyState>(store: Store<T>, ...replacements: PatchPair<T>[]): void {
-  const storeImpl = getImpl(store);
-  const isUpdating = storeImpl._queuedUpdates.length > 0;
-  for (const [path, patch] of replacements) {
-    storeImpl._queuedUpdates.push([concatPath(store.prefix, path), patch as AnyPatch]);
-  }
+export function update<T extends AnyState, L extends boolean>(
+  store: StoreView<T, true, L>,
+  ...replacements: NoInfer<PatchPair<T, L>>[]
+): void {
+  enqueue(
+    getWritableImpl(store),
+    replacements.map(([path, patch]) => [concatPath(store.prefix, path), patch as AnyPatch]),
+  );
+}
+
+// Adds updates to the queue, and flushes it unless a batch, transaction or deferred flush is already pending
+function enqueue(impl: StoreImpl, updates: [PropertyKey, AnyPatch][]): void {
+  const isUpdating = impl._queuedUpdates.length > 0 || impl._transactions > 0;
+  impl._queuedUpdates.push(...updates);
   if (!isUpdating) {
-    applyChanges(storeImpl);
+    requestFlush(impl);
+  }
+}
+
+/**
+ * Runs a function, collecting all `patch` and `update` calls made within it into a single batch.
+ * Listeners are notified once, after the function returns. If the function throws, its updates are discarded
+ * and the state is left unchanged without notifying anyone.
+ * Note that the queued updates are not visible to `peek` until the transaction has finished.
+ * @param store The Store object
+ * @param fn The function to run
+ * @returns The return value of `fn`
+ */
+export function transaction<T extends AnyState, R>(store: Store<T>, fn: () => R): R {
+  const impl = getWritableImpl(store);
+  const queueLength = impl._queuedUpdates.length;
+  let result: R;
+  impl._transactions++;
+  try {
+    result = fn();
+  } catch (error) {
+    impl._queuedUpdates.length = queueLength;
+    throw error;
+  } finally {
+    impl._transactions--;
+  }
+  // If a batch was already in progress or pending, it will pick up our updates
+  if (!queueLength && !impl._transactions) {
+    requestFlush(impl);
   }
+  return result;
 }
 
 // Patch specification type for patchState. Equivalent to a 'deep partial' but does not affect arrays.
-type PatchSpec<T> =
-  | null
+// In `literalNull` stores, `null` is only allowed where the state type allows it.
+type PatchSpec<T, LiteralNull extends boolean> =
+  | (LiteralNull extends true ? never : null)
   | undefined
+  | typeof DELETE
+  | Replacement<T>
   | (T extends AtomicValue
       ? T
       : T extends readonly unknown[]
-        ? { readonly [K in number | "length"]?: PatchSpecOrFunction<T[K]> } | T
-        : { readonly [K in keyof T]?: PatchSpecOrFunction<T[K]> });
+        ? { readonly [K in number | "length"]?: PatchSpecOrFunction<T[K], LiteralNull> } | T
+        : { readonly [K in keyof T]?: PatchSpecOrFunction<T[K], LiteralNull> });
 
-type PatchSpecOrFunction<T> = PatchSpec<T> | ((prev: T) => PatchSpec<T>);
+type PatchSpecOrFunction<T, LiteralNull extends boolean> =
+  | PatchSpec<T, LiteralNull>
+  | ((prev: T) => PatchSpec<T, LiteralNull>);
 
 /**
  * A value or patch specification for use with the `patch` function.
- * The patch specification allows partial updates to objects and arrays, with `null` values indicating deletion of keys and `undefined` values indicating no change.
+ * The patch specification allows partial updates to objects and arrays, with {@link DELETE} (or `null`, unless `LiteralNull` is true)
+ * indicating deletion of keys and `undefined` values indicating no change.
  */
-export type PatchValue<T> = T | PatchSpecOrFunction<T>;
+export type PatchValue<T, LiteralNull extends boolean = boolean> =
+  | T
+  | PatchSpecOrFunction<T, LiteralNull>;
+
+type _Test_PatchValue1 = Assert<null | typeof DELETE, PatchValue<{ a: number }>>;
+type _Test_PatchValue2 = Assert<null | typeof DELETE, PatchValue<number | null, true>>;
+type _Test_PatchValue3 = Assert<null extends PatchValue<number, true> ? false : true, true>;
 
 /**
  * Patches the value at the specified path in the store's state by merging the provided patch object.
- * `null` values in the patch object will delete the corresponding keys in the state, while `undefined` values will leave them unchanged.
+ * {@link DELETE} values in the patch object will delete the corresponding keys in the state, as will `null` values unless the store
+ * was created with the `literalNull` option. `undefined` values will leave them unchanged.
  * @param store The Store object
  * @param path The path to patch
  * @param patchValue The patch object to merge at the specified path
  */
-export function patch<T extends AnyState>(store: Store<T>, patchValue: PatchValue<T[""]>): void {
-  const storeImpl = getImpl(store);
-  const isUpdating = storeImpl._queuedUpdates.length > 0;
-  storeImpl._queuedUpdates.push([store.prefix, patchValue as AnyPatch]);
-  if (!isUpdating) {
-    applyChanges(storeImpl);
+export function patch<T extends AnyState, L extends boolean>(
+  store: StoreView<T, true, L>,
+  patchValue: NoInfer<PatchValue<T[""], L>>,
+): void {
+  enqueue(getWritableImpl(store), [[store.prefix, patchValue as AnyPatch]]);
+}
+
+const replacement = Symbol("replace");
+
+/**
+ * A patch that replaces the existing value exactly, rather than being merged into it. See {@link replace}.
+ */
+export type Replacement<T> = { readonly [replacement]: T | ((prev: T) => T) };
+
+function isReplacement(patch: unknown): patch is Replacement<StateValue> {
+  return typeof patch === "object" && patch !== null && replacement in patch;
+}
+
+/**
+ * Wraps a value so that, when used in a patch, it replaces the existing value exactly instead of being merged into it:
+ * keys that are missing from the new value are deleted. Branches that are unchanged by reference are kept,
+ * and frozen objects from the state are re-used as-is, so only the paths that differ are notified.
+ * @param value The new value, or a function that computes it from the previous value
+ * @returns A patch value for use with `patch` and `update`
+ * @example
+ * ```ts
+ * const store = createStore({ user: { name: "Ann", age: 30 } });
+ * update(store, ["user", replace({ name: "Bob" })]);
+ * peek(store, "user"); // { name: "Bob" }
+ * ```
+ */
+export function replace<T>(value: T | ((prev: T) => T)): Replacement<T> {
+  return { [replacement]: value };
+}
+
+// The paths of `T` whose values are arrays
+type ArrayPath<T extends AnyState> = {
+  [K in keyof T]: NonNullable<T[K]> extends readonly unknown[] ? K : never;
+}[keyof T];
+
+type ItemOf<T extends AnyState, P extends keyof T> =
+  NonNullable<T[P]> extends readonly (infer I)[] ? I : never;
+
+/**
+ * Removes and/or inserts items in the array at the specified path, with the same arguments as `Array.prototype.splice`.
+ * The change is computed when it is applied, so it composes with other queued updates, and only the indices
+ * whose values actually change (plus `length`) are notified. Items keep their references when they shift position.
+ * @param store The Store object
+ * @param path The path of the array; a missing array is treated as empty
+ * @param start The index at which to start changing the array. Negative values count back from the end.
+ * @param deleteCount The number of items to remove
+ * @param items The items to insert at `start`
+ */
+export function splice<T extends AnyState, P extends ArrayPath<T>>(
+  store: Store<T>,
+  path: P,
+  start: number,
+  deleteCount: number,
+  ...items: ItemOf<T, P>[]
+): void {
+  spliceWith(store, path, (array) => {
+    array.splice(start, deleteCount, ...(items as StateValue[]));
+  });
+}
+
+/**
+ * Inserts items into the array at the specified path, shifting later items up. See {@link splice}.
+ * @param store The Store object
+ * @param path The path of the array
+ * @param index The index at which to insert the items. Negative values count back from the end.
+ * @param items The items to insert
+ */
+export function insert<T extends AnyState, P extends ArrayPath<T>>(
+  store: Store<T>,
+  path: P,
+  index: number,
+  ...items: ItemOf<T, P>[]
+): void {
+  splice(store, path, index, 0, ...items);
+}
+
+/**
+ * Removes items from the array at the specified path, shifting later items down. See {@link splice}.
+ * @param store The Store object
+ * @param path The path of the array
+ * @param index The index of the first item to remove. Negative values count back from the end.
+ * @param count The number of items to remove (default: 1)
+ */
+export function remove<T extends AnyState, P extends ArrayPath<T>>(
+  store: Store<T>,
+  path: P,
+  index: number,
+  count = 1,
+): void {
+  splice(store, path, index, count);
+}
+
+/**
+ * Moves an item within the array at the specified path. See {@link splice}.
+ * @param store The Store object
+ * @param path The path of the array
+ * @param from The current index of the item. Negative values count back from the end.
+ * @param to The index that the item should end up at. Negative values count back from the end.
+ */
+export function move<T extends AnyState, P extends ArrayPath<T>>(
+  store: Store<T>,
+  path: P,
+  from: number,
+  to: number,
+): void {
+  spliceWith(store, path, (array) => {
+    // Resolve a negative `to` against the original length, before the item is taken out
+    array.splice(to < 0 ? to + array.length : to, 0, ...array.splice(from, 1));
+  });
+}
+
+function spliceWith(store: StoreView, path: PropertyKey, fn: (array: StateValue[]) => void): void {
+  const fullPath = concatPath(store.prefix, path);
+  enqueue(getWritableImpl(store), [
+    [
+      fullPath,
+      replace((prev: StateValue) => {
+        const array = isArray(prev) ? [...prev] : [];
+        fn(array);
+        return array;
+      }),
+    ],
+  ]);
+}
+
+/**
+ * Computes the path-value pairs that turn `from` into `to` when passed to {@link update}.
+ * Unlike {@link patch}, the result replaces the value exactly: keys missing from `to` are deleted.
+ * Branches that are unchanged by reference are skipped, so only the paths that differ are notified.
+ * @param from The current value
+ * @param to The target value
+ * @param path The path at which both values are located (default: the root)
+ * @returns An array of path-value pairs
+ */
+export function diff(
+  from: StateConstraint,
+  to: StateConstraint,
+  path: PropertyKey = "",
+): PatchPair<AnyState>[] {
+  const pairs: [PropertyKey, PatchedValue][] = [];
+  diffInto(pairs, from as StateValue, to as StateValue, path);
+  return pairs as unknown as PatchPair<AnyState>[];
+}
+
+function diffInto(
+  pairs: [PropertyKey, PatchedValue][],
+  from: StateValue,
+  to: StateValue,
+  path: PropertyKey,
+): void {
+  if (from === to) {
+    return;
+  }
+  if (isAtomic(from) || isAtomic(to) || isArray(from) !== isArray(to)) {
+    if (from && typeof from === "object" && !isAtomic(to)) {
+      // Clear the old object first, otherwise `to` would be merged into it
+      pairs.push([path, DELETE]);
+    }
+    pairs.push([path, to === undefined ? DELETE : to]);
+    return;
   }
+  if (isArray(to) && (from as StateArray).length !== to.length) {
+    // Set the length first, so that it doesn't truncate any newly added items
+    pairs.push([concatPath(path, "length"), to.length]);
+  }
+  for (const key of objectKeys(from)) {
+    if (!(key in to)) {
+      pairs.push([childPath(path, key), DELETE]);
+    }
+  }
+  for (const key of objectKeys(to)) {
+    diffInto(pairs, index(from, key), index(to, key), childPath(path, key));
+  }
+}
+
+// Unique brand to identify Snapshot objects, for type safety only
+const snapshotBrand = Symbol("Snapshot");
+
+/**
+ * An opaque handle to the state of a store at one point in time. These cannot be constructed directly; use {@link snapshot} instead.
+ * @template T  The `PathMap` type of the store that the snapshot was taken from
+ */
+export interface Snapshot<T extends AnyState = AnyState> {
+  /**
+   * Brand to ensure type safety. The real value is always `null`, so you should not read this property at runtime.
+   * @internal
+   */
+  readonly [snapshotBrand]: T;
+}
+
+// Maps Snapshot objects to the store root, prefix and state they were taken from
+const snapshotMap = new WeakMap<
+  Snapshot,
+  [root: StoreView, prefix: PropertyKey, state: StateValue]
+>();
+
+/**
+ * Takes a snapshot of the current state of a store, to be passed to {@link restore} later.
+ * The state is immutable, so this is cheap: the snapshot shares its structure with the store and with other snapshots.
+ * @param store The Store object
+ * @returns An opaque snapshot of the state at the store's path
+ * @example
+ * ```ts
+ * const saved = snapshot(store);
+ * update(store, ["user.name", "Bob"]);
+ * restore(store, saved);
+ * ```
+ */
+export function snapshot<T extends AnyState>(store: StoreView<T>): Snapshot<T> {
+  const snap = freeze({ [snapshotBrand]: null as unknown as T });
+  snapshotMap.set(snap, [getRoot(store), store.prefix, peek(store) as StateValue]);
+  return snap;
+}
+
+/**
+ * Restores the state of a store to a snapshot taken with {@link snapshot}. The snapshot replaces the state exactly,
+ * so keys added since are deleted, and only the paths that differ are notified. Unchanged branches keep their references.
+ * The snapshot must have been taken from the same store, at the same path.
+ * @param store The Store object
+ * @param snap The snapshot to restore
+ */
+export function restore<T extends AnyState>(store: StoreView<T, true>, snap: Snapshot<T>): void {
+  const entry = snapshotMap.get(snap);
+  if (!entry || entry[0] !== getRoot(store) || entry[1] !== store.prefix) {
+    throw new Error("Invalid snapshot: it was taken from a different store");
+  }
+  enqueue(getWritableImpl(store), [[store.prefix, replace(entry[2])]]);
+}
+
+/**
+ * A mutable version of a state type, as passed to the recipe of {@link produce}.
+ */
+export type Draft<T> = T extends
+  | AtomicValue
+  | Date
+  | ReadonlyMap<unknown, unknown>
+  | ReadonlySet<unknown>
+  ? T
+  : { -readonly [K in keyof T]: Draft<T[K]> };
+
+/**
+ * Applies edits made to a mutable draft of the state. The draft is a copy-on-write proxy, so only the objects and arrays
+ * that are edited are copied, and the edits are converted into the minimal set of path-value pairs with {@link diff},
+ * which are applied in a single {@link update}. Unchanged branches keep their references, and only changed paths are notified.
+ * Drafts are only valid within the recipe, and reading the store with `peek` inside it returns the state before the edits.
+ * @param store The Store object
+ * @param recipe A function that edits the draft in place
+ * @returns The path-value pairs that were applied
+ * @example
+ * ```ts
+ * produce(store, (draft) => {
+ *   draft.user.tags.push("x");
+ *   delete draft.user.nickname;
+ * });
+ * ```
+ */
+export function produce<T extends AnyState, L extends boolean>(
+  store: StoreView<T, true, L>,
+  recipe: (draft: Draft<T[""]>) => void,
+): PatchPair<T, L>[] {
+  const base = peek(store) as StateValue;
+  const [draft, finalize] = createDraft(base);
+  recipe(draft as Draft<T[""]>);
+  const pairs = diff(base, finalize()) as PatchPair<T, L>[];
+  if (pairs.length) {
+    update(store, ...(pairs as NoInfer<PatchPair<T, L>>[]));
+  }
+  return pairs;
+}
+
+// Creates a copy-on-write draft of a value, returning it along with a function to compute the edited value
+function createDraft(base: StateValue): [draft: StateValue, finalize: () => StateValue] {
+  // Maps each draft proxy to its original value, its working copy, and the drafts of its original children
+  const drafts = new Map<
+    object,
+    [base: StateValue, copy: Record<string, StateValue>, children: Map<string, StateValue>]
+  >();
+  const finalized = new Map<object, StateValue>();
+  const wrap = (value: StateValue): StateValue => {
+    if (isAtomic(value)) {
+      return value;
+    }
+    // Proxies must return frozen properties as-is, so the proxy target is an unfrozen copy that the edits are made to
+    const copy = (isArray(value) ? [...value] : { ...value }) as Record<string, StateValue>;
+    const children = new Map<string, StateValue>();
+    const proxy = new Proxy(copy, {
+      get: (target, key, receiver) => {
+        if (
+          typeof key !== "string" ||
+          !hasOwn.call(target, key) ||
+          target[key] !== index(value, key)
+        ) {
+          return Reflect.get(target, key, receiver);
+        }
+        // Original children are drafted when read, so that they can be edited in place
+        let child = children.get(key);
+        if (!child) {
+          child = wrap(target[key]);
+          children.set(key, child);
+        }
+        return child;
+      },
+      set: (target, key, newValue) => {
+        children.delete(key as string);
+        return Reflect.set(target, key, newValue);
+      },
+      deleteProperty: (target, key) => {
+        children.delete(key as string);
+        return Reflect.deleteProperty(target, key);
+      },
+    });
+    drafts.set(proxy, [value, copy, children]);
+    return proxy;
+  };
+  // Replaces drafts with their edited values, reusing the original value if nothing inside it was changed
+  const finalize = (value: StateValue): StateValue => {
+    const draft = drafts.get(value as object);
+    if (draft) {
+      let result = finalized.get(value as object);
+      if (result === undefined) {
+        const [original, copy, children] = draft;
+        const copyKeys = objectKeys(copy);
+        let changed = copyKeys.length !== objectKeys(original as object).length;
+        for (const key of copyKeys) {
+          copy[key] = finalize(children.get(key) ?? copy[key]);
+          changed ||= !(key in (original as object)) || copy[key] !== index(original, key);
+        }
+        result = changed ? (copy as StateValue) : original;
+        finalized.set(value as object, result);
+      }
+      return result;
+    }
+    // New objects may contain drafts
+    if (!isAtomic(value) && !isFrozen(value)) {
+      const object = value as Record<string, StateValue>;
+      for (const key of objectKeys(object)) {
+        object[key] = finalize(object[key]);
+      }
+    }
+    return value;
+  };
+  const draft = wrap(base);
+  return [draft, () => finalize(draft)];
 }
 
 /**
@@ -791,7 +2306,154 @@ export function setAtom<T extends object>(value: T): AtomOf<T> {
  * @returns True if the value is an atom, false otherwise
  */
 export function isAtomic<T>(value: T): value is T extends object ? AtomOf<T> : T {
-  return typeof value !== "object" || value === null || (value as unknown as Atom)[atom] === true;
+  return (
+    typeof value !== "object" ||
+    value === null ||
+    (value as unknown as Atom)[atom] === true ||
+    codecs.some((codec) => codec.test(value))
+  );
+}
+
+/**
+ * Describes how to store a type that is not JSON-serializable, such as a Date or a class instance. See {@link registerCodec}.
+ */
+export interface Codec<T = unknown, E = unknown> {
+  /**
+   * A unique name for the type, which is included in encoded values so that they can be decoded again.
+   */
+  name: string;
+
+  /**
+   * Returns true if the value should be handled by this codec.
+   */
+  test: (value: unknown) => boolean;
+
+  /**
+   * Converts a value to a representation that can be passed to {@link encode} (for example, a string or an array).
+   */
+  encode: (value: T) => E;
+
+  /**
+   * Converts an encoded value back to the original type.
+   */
+  decode: (encoded: E) => T;
+}
+
+// Registered codecs, in the order they are tested
+const codecs: Codec[] = [];
+
+// The key that marks an encoded value in the output of `encode`
+const codecKey = "$codec";
+
+/**
+ * Registers a codec, so that values it handles are treated as atoms in state and can be serialized with {@link encode} and {@link decode}.
+ * Such values are frozen when they are added to the state and are replaced, never merged, so they are ref-stable until the next change.
+ * Note that freezing is shallow, and does not prevent changes to the internal data of objects like Date, Map and Set - these should be replaced instead.
+ * Codecs for Date, Map, Set, BigInt and {@link setAtom} objects are registered by default.
+ * @param codec The codec to register
+ * @returns A function to unregister the codec
+ * @example
+ * ```ts
+ * registerCodec({
+ *   name: "Point",
+ *   test: (value) => value instanceof Point,
+ *   encode: (point: Point) => [point.x, point.y],
+ *   decode: ([x, y]) => new Point(x, y),
+ * });
+ * ```
+ */
+export function registerCodec<T, E>(codec: Codec<T, E>): () => void {
+  codecs.push(codec as Codec);
+  return () => {
+    const index = codecs.indexOf(codec as Codec);
+    if (index >= 0) {
+      codecs.splice(index, 1);
+    }
+  };
+}
+
+registerCodec<Atom, StateValue>({
+  name: "Atom",
+  test: (value) => typeof value === "object" && value !== null && (value as Atom)[atom] === true,
+  // Copy the value without its marker
+  encode: (value) => (isArray(value) ? [...value] : fromEntries(objectEntries(value))),
+  decode: (encoded) => setAtom(encoded as object),
+});
+
+registerCodec<typeof DELETE, null>({
+  name: "Delete",
+  test: (value) => value === DELETE,
+  encode: () => null,
+  decode: () => DELETE,
+});
+
+registerCodec<Date, string>({
+  name: "Date",
+  test: (value) => value instanceof Date,
+  encode: (date) => date.toISOString(),
+  decode: (encoded) => new Date(encoded),
+});
+
+registerCodec<Map<unknown, unknown>, [unknown, unknown][]>({
+  name: "Map",
+  test: (value) => value instanceof Map,
+  encode: (map) => [...map],
+  decode: (encoded) => new Map(encoded),
+});
+
+registerCodec<Set<unknown>, unknown[]>({
+  name: "Set",
+  test: (value) => value instanceof Set,
+  encode: (set) => [...set],
+  decode: (encoded) => new Set(encoded),
+});
+
+registerCodec<bigint, string>({
+  name: "BigInt",
+  test: (value) => typeof value === "bigint",
+  encode: (value) => value.toString(),
+  decode: (encoded) => BigInt(encoded),
+});
+
+/**
+ * Converts a state value to a JSON-serializable form, replacing any values handled by a registered {@link Codec}
+ * with objects of the form `{ $codec: name, value: encoded }`. Use {@link decode} to convert it back.
+ * @param value The value to encode
+ * @returns The encoded value
+ */
+export function encode(value: StateConstraint): StateValue {
+  const codec = codecs.find((codec) => codec.test(value));
+  if (codec) {
+    return { [codecKey]: codec.name, value: encode(codec.encode(value)) };
+  }
+  if (isAtomic(value)) {
+    return value as StateValue;
+  }
+  if (isArray(value)) {
+    return (value as StateArray).map(encode);
+  }
+  return fromEntries(objectEntries(value as object).map(([key, item]) => [key, encode(item)]));
+}
+
+/**
+ * Converts a value produced by {@link encode} back to its original form, using the registered codecs.
+ * Encoded values whose codec is not registered are left as-is.
+ * @param value The encoded value
+ * @returns The decoded value
+ */
+export function decode(value: StateConstraint): StateValue {
+  if (isAtomic(value)) {
+    return value as StateValue;
+  }
+  if (isArray(value)) {
+    return (value as StateArray).map(decode);
+  }
+  const name = (value as Record<string, unknown>)[codecKey];
+  const codec = codecs.find((codec) => codec.name === name);
+  if (codec) {
+    return codec.decode(decode((value as { value: StateValue }).value)) as StateValue;
+  }
+  return fromEntries(objectEntries(value as object).map(([key, item]) => [key, decode(item)]));
 }
 
 /* v8 ignore start -- @preserve */
@@ -819,6 +2481,55 @@ if (import.meta.vitest) {
     expect(() => peek(store, "a")).toThrow("Invalid store");
   });
 
+  test("development diagnostics warn about likely mistakes", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const value = setAtom({ x: 1 });
+    const store = createStore({ a: 1, atom: value } as {
+      a: number | { b: number };
+      atom: { x: number };
+    });
+    update(store, ["a.b", 2]);
+    expect(warn).toHaveBeenLastCalledWith(
+      '[tinystate] Writing to "a.b" replaces the value at "a", which is not an object.',
+    );
+    const listener = () => {};
+    listen(store, "a.c" as "a", listener);
+    expect(warn).toHaveBeenLastCalledWith(
+      '[tinystate] Listening to "a.c", which is not in the store\'s state. Check the path for typos.',
+    );
+    const warnings = warn.mock.calls.length;
+    listen(createStore({ list: [{ a: 1 }] }), "list.1.a", listener);
+    expect(warn).toHaveBeenCalledTimes(warnings);
+    listen(store, "a", listener);
+    listen(store, "a", listener);
+    expect(warn).toHaveBeenLastCalledWith(
+      '[tinystate] The same listener was subscribed to "a" twice. It will only be called once.',
+    );
+    listenAll(store, listener);
+    listenAll(store, listener);
+    expect(warn).toHaveBeenLastCalledWith(
+      "[tinystate] The same listener was subscribed to all changes twice. It will only be called once.",
+    );
+    const count = warn.mock.calls.length;
+    update(store, ["atom", value]);
+    const big = setAtom({ big: BigInt(1), nan: Number.NaN });
+    const bigStore = createStore({ atom: big });
+    update(bigStore, ["atom", big]);
+    expect(warn).toHaveBeenCalledTimes(count);
+    value.x = 2;
+    update(store, ["atom", value]);
+    expect(warn).toHaveBeenLastCalledWith(
+      '[tinystate] The atom at "atom" was mutated after it was inserted. Atoms are compared by reference, so insert a new object instead.',
+    );
+    warn.mockRestore();
+    destroyStore(store);
+    expect(() => peek(store)).toThrow("Invalid store: the store has been destroyed");
+    expect(() => peek({} as Store)).toThrow(
+      "Invalid store: expected a store object, but got [object Object]",
+    );
+    expect(() => peek({ root: null, prefix: "" } as unknown as Store)).toThrow(/^Invalid store$/);
+  });
+
   test("set state and get updated value", () => {
     const store = createStore({ a: 1, b: { c: 2 } });
     update(store, ["a", 10]);
@@ -946,6 +2657,25 @@ if (import.meta.vitest) {
     expect(listenerWithObjects).toHaveBeenCalledTimes(1);
   });
 
+  test("listenAll includes objects that can't be rebuilt from primitives", () => {
+    type State = { a?: number | number[]; b: { c?: { f?: number }; d: { e: number } } };
+    const store = createStore<State>({ a: 1, b: { d: { e: 2 } } });
+    const replica = createStore<State>(peek(store));
+    const listener = vi.fn((pairs) => update(replica, ...pairs));
+    listenAll(store, listener);
+    update(store, ["b.c", {}], ["a", [3]], ["b.d", { e: 4 }]);
+    expect(listener).toHaveBeenCalledWith([
+      ["a", [3]],
+      ["b.c", {}],
+      ["a.length", 1],
+      ["a.0", 3],
+      ["b.d.e", 4],
+    ]);
+    expect(peek(replica)).toEqual(peek(store));
+    update(store, ["b.c", {}]);
+    expect(listener).toHaveBeenLastCalledWith([]);
+  });
+
   test("get primitive pairs", () => {
     const store = createStore({
       a: 1,
@@ -1038,6 +2768,237 @@ if (import.meta.vitest) {
     expect(listenerFn).nthCalledWith(2, { a: 2, b: 3 }, "");
   });
 
+  test("transaction notifies once at the end", () => {
+    const store = createStore({ a: 1, b: { c: 2 } });
+    const listener = vi.fn();
+    listen(store, "", listener);
+    const result = transaction(store, () => {
+      update(store, ["a", 10]);
+      patch(focus(store, "b"), { c: 20 });
+      transaction(store, () => update(store, ["a", 11]));
+      expect(peek(store, "a")).toBe(1);
+      return "done";
+    });
+    expect(result).toBe("done");
+    expect(peek(store)).toEqual({ a: 11, b: { c: 20 } });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test("transaction rolls back when it throws", () => {
+    const store = createStore({ a: 1, b: 2 });
+    const listener = vi.fn();
+    listen(store, "", listener);
+    expect(() =>
+      transaction(store, () => {
+        update(store, ["a", 10]);
+        throw new Error("oops");
+      }),
+    ).toThrow("oops");
+    transaction(store, () => {
+      update(store, ["a", 20]);
+      expect(() =>
+        transaction(store, () => {
+          update(store, ["b", 30]);
+          throw new Error("nested");
+        }),
+      ).toThrow("nested");
+    });
+    expect(peek(store)).toEqual({ a: 20, b: 2 });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test("transaction within listener joins the next batch", () => {
+    const store = createStore({ a: 1, b: 1, c: 1 });
+    listen(store, "a", (value) => {
+      transaction(store, () => {
+        update(store, ["b", value], ["c", value]);
+      });
+    });
+    const listener = vi.fn();
+    listen(store, "", listener);
+    update(store, ["a", 2]);
+    expect(listener).toHaveBeenNthCalledWith(2, { a: 2, b: 2, c: 2 }, "");
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  test("failed batch leaves the state unchanged", () => {
+    const store = createStore({ a: 1, b: 2 });
+    // biome-ignore lint/suspicious/noExplicitAny: for testing
+    const obj: any = {};
+    obj.self = obj;
+    expect(() => update(store, ["a", 10], ["b", obj])).toThrow("Circular reference");
+    expect(peek(store)).toEqual({ a: 1, b: 2 });
+  });
+
+  test("listen to path patterns", () => {
+    const store = createStore({
+      items: [{ name: "a", done: false }],
+      meta: { a: { b: 1 } as { b: number } | null },
+    });
+    const names = vi.fn();
+    const deep = vi.fn();
+    listen(store, "items.*.name", names, true);
+    expect(names).toHaveBeenCalledWith("a", "items.0.name");
+    const unsubscribe = listen(store, "meta.**", deep);
+    update(store, ["items.0.done", true]);
+    expect(names).toHaveBeenCalledTimes(1);
+    patch(focus(store, "items"), (prev) => [...prev, { name: "b", done: false }]);
+    expect(names).toHaveBeenCalledWith("b", "items.1.name");
+    expect(deep).not.toHaveBeenCalled();
+    update(store, ["meta.a", null]);
+    expect(deep).toHaveBeenCalledWith(undefined, "meta.a");
+    expect(deep).toHaveBeenCalledWith(undefined, "meta.a.b");
+    expect(deep).toHaveBeenCalledWith({}, "meta");
+    unsubscribe();
+    update(store, ["meta.a", { b: 2 }]);
+    expect(deep).toHaveBeenCalledTimes(3);
+    update(store, ["items", null]);
+    expect(names).toHaveBeenCalledWith(undefined, "items.1.name");
+  });
+
+  test("peek path pattern matches", () => {
+    const store = createStore({ a: [{ b: 1 }, { b: 2 }], c: { d: { b: 3 } } });
+    expect(peekMatches(store, "a.*.b")).toEqual([
+      ["a.0.b", 1],
+      ["a.1.b", 2],
+    ]);
+    expect(peekMatches(focus(store, "c"), "**.b")).toEqual([["c.d.b", 3]]);
+    expect(isPathPattern("a.*")).toBe(true);
+    expect(isPathPattern("a.b")).toBe(false);
+  });
+
+  test("microtask scheduler notifies once per tick", async () => {
+    const store = createStore({ a: 1, b: 2 }, { scheduler: "microtask" });
+    const listener = vi.fn();
+    listen(store, "", listener);
+    update(store, ["a", 10]);
+    patch(store, { b: 20 });
+    expect(peek(store, "a")).toBe(1);
+    expect(listener).not.toHaveBeenCalled();
+    await Promise.resolve();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ a: 10, b: 20 }, "");
+  });
+
+  test("raf scheduler notifies before the next frame", async () => {
+    const store = createStore({ a: 1 }, { scheduler: "raf" });
+    update(store, ["a", 2]);
+    expect(peek(store, "a")).toBe(1);
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+    expect(peek(store, "a")).toBe(2);
+  });
+
+  test("custom scheduler and flush", () => {
+    const scheduled: (() => void)[] = [];
+    const store = createStore({ a: 1 }, { scheduler: (fn) => scheduled.push(fn) });
+    const listener = vi.fn();
+    listen(store, "a", (value) => {
+      listener(value);
+      flush(store); // No effect from within a listener
+    });
+    update(store, ["a", 2]);
+    update(store, ["a", 3]);
+    expect(scheduled).toHaveLength(1);
+    flush(store);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(3);
+    scheduled[0]();
+    expect(listener).toHaveBeenCalledTimes(1);
+    transaction(store, () => {
+      update(store, ["a", 4]);
+      flush(store); // No effect from within a transaction
+    });
+    expect(peek(store, "a")).toBe(3);
+    scheduled[1]();
+    expect(peek(store, "a")).toBe(4);
+  });
+
+  test("interceptors transform updates", () => {
+    const store = createStore({ items: [{ qty: 1 }], name: "" });
+    intercept(store, "items.*.qty", ([path, qty]) => [
+      [path, Math.max(0, (qty as number | undefined) ?? 0)],
+    ]);
+    intercept(store, "name", ([path, name]) => [[path, String(name).trim()]]);
+    update(store, ["items.0.qty", -5], ["name", "  Alice "]);
+    expect(peek(store)).toEqual({ items: [{ qty: 0 }], name: "Alice" });
+    patch(store, { items: (prev) => [...prev, { qty: -2 }] });
+    expect(peek(store, "items")).toEqual([{ qty: 0 }, { qty: 0 }]);
+    patch(store, { items: { 0: { qty: (prev) => prev + 3 } } });
+    expect(peek(store, "items.0.qty")).toBe(3);
+  });
+
+  test("interceptors veto and split updates", () => {
+    const store = createStore({ config: { locked: true }, a: 1, b: 1, c: {} as { d?: number } });
+    const listener = vi.fn();
+    listen(store, "", listener);
+    const unsubscribe = intercept(store, "config.**", () => []);
+    intercept(store, "a", ([, value]) => [
+      ["a", value],
+      ["b", value],
+    ]);
+    patch(store, { config: { locked: false }, a: 2, c: {} });
+    expect(peek(store)).toEqual({ config: { locked: true }, a: 2, b: 2, c: {} });
+    update(store, ["config", null]);
+    expect(peek(store, "config")).toEqual({ locked: true });
+    intercept(store, "c", () => []);
+    update(store, ["c.d", 1]);
+    expect(peek(store, "c")).toEqual({ d: 1 });
+    unsubscribe();
+    unsubscribe();
+    update(store, ["config.locked", false]);
+    expect(peek(store, "config.locked")).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  test("afterUpdate sees the changes for each batch", () => {
+    const store = createStore({ a: 1, b: { c: 2 } });
+    const hook = vi.fn();
+    const listener = vi.fn(() => expect(hook).toHaveBeenCalled());
+    const unsubscribe = afterUpdate(store, hook);
+    listen(store, "a", listener);
+    update(store, ["a", 10], ["b.c", null]);
+    expect(hook).toHaveBeenCalledWith(
+      new Map<string, unknown>([
+        ["a", 10],
+        ["b.c", undefined],
+        ["b", {}],
+        ["", { a: 10, b: {} }],
+      ]),
+    );
+    expect(listener).toHaveBeenCalled();
+    unsubscribe();
+    update(store, ["a", 20]);
+    expect(hook).toHaveBeenCalledTimes(1);
+  });
+
+  test("keys containing dots are escaped in paths", () => {
+    const store = createStore({
+      byHost: { "a.b.com": { up: true }, "x\\y": 1 },
+    });
+    const path = joinPath("byHost", "a.b.com", "up");
+    expect(path).toBe("byHost.a\\.b\\.com.up");
+    expect(splitPath(path)).toEqual(["byHost", "a.b.com", "up"]);
+    expect(splitPath("a\\")).toEqual(["a\\"]);
+    expect(peek(store, path)).toBe(true);
+    expect(peek(focus(store, "byHost.a\\.b\\.com"), "up")).toBe(true);
+    const listener = vi.fn();
+    const pattern = vi.fn();
+    const pairs = vi.fn();
+    listen(store, path, listener);
+    listen(store, "byHost.*", pattern);
+    listenAll(store, pairs);
+    update(store, [path, false], [joinPath("byHost", "x\\y"), 2]);
+    expect(peek(store, "byHost")).toEqual({ "a.b.com": { up: false }, "x\\y": 2 });
+    expect(listener).toHaveBeenCalledWith(false, path);
+    expect(pattern).toHaveBeenCalledWith(2, "byHost.x\\\\y");
+    expect(pairs).toHaveBeenCalledWith([
+      [path, false],
+      ["byHost.x\\\\y", 2],
+    ]);
+    expect(peekMatches(store, "byHost.a\\.b\\.com.*")).toEqual([[path, false]]);
+    expect(diff({ "a.b": 1 }, {})).toEqual([["a\\.b", DELETE]]);
+  });
+
   test("focus creates sub-store", () => {
     const store = createStore({ a: { b: 1, c: 2 }, d: [3] });
     const subStore = focus(store, "a");
@@ -1059,6 +3020,67 @@ if (import.meta.vitest) {
     expect(focusedStore).toBe(store);
   });
 
+  test("readonly views reject writes", () => {
+    const store = createStore({ a: { b: 1 }, list: [1] });
+    const view = readonly(store);
+    expect(readonly(view)).toBe(view);
+    expect(peek(view, "a.b")).toBe(1);
+    const listener = vi.fn();
+    listen(view, "a.b", listener);
+    update(store, ["a.b", 2]);
+    expect(listener).toHaveBeenCalledWith(2, "a.b");
+    const writable = view as StoreView as StoreOf<{ a: { b: number }; list: number[] }>;
+    const sub = focus(writable, "a");
+    expect(peek(sub, "b")).toBe(2);
+    expect(() => update(writable, ["a.b", 3])).toThrow("Cannot write to a read-only store");
+    expect(() => patch(sub, { b: 3 })).toThrow("Cannot write to a read-only store");
+    expect(() => insert(writable, "list", 0, 0)).toThrow("Cannot write to a read-only store");
+    expect(() => intercept(writable, "a.b", () => [])).toThrow("Cannot write to a read-only store");
+    expect(() => destroyStore(writable)).toThrow("Cannot write to a read-only store");
+    const root = sub.root as StoreView as typeof writable;
+    expect(root).toBe(writable);
+    expect(() => update(root, ["a.b", 3])).toThrow("Cannot write to a read-only store");
+    const subRoot = readonly(focus(store, "a")).root as StoreView as typeof writable;
+    expect(() => update(subRoot, ["a.b", 3])).toThrow("Cannot write to a read-only store");
+    expect(peek(subRoot, "a.b")).toBe(2);
+    expect(peek(store)).toEqual({ a: { b: 2 }, list: [1] });
+    const derived = computed(store, "a.b", (b) => b * 2);
+    expect(() => update(derived as StoreView as StoreOf<number>, ["", 0])).toThrow(
+      "Cannot write to a read-only store",
+    );
+    expect(peek(derived)).toBe(4);
+    expect(isStore(view)).toBe(true);
+    expect(() => transaction(writable, () => {})).toThrow("Cannot write to a read-only store");
+  });
+
+  test("lock rejects writes to a subtree", () => {
+    const store = createStore({
+      config: { mode: "a", flags: [1] } as { mode?: string; flags: number[] },
+      a: 1,
+    });
+    const unlock = lock(store, "config");
+    update(store, ["a", 2], ["config.mode", "a"]);
+    patch(store, { config: { flags: (prev) => prev } });
+    expect(peek(store)).toEqual({ config: { mode: "a", flags: [1] }, a: 2 });
+    const state = peek(store);
+    expect(() => update(store, ["a", 3], ["config.mode", "b"])).toThrow(
+      'Cannot write to "config.mode", which is locked',
+    );
+    expect(() => update(store, ["config.mode", DELETE])).toThrow("locked");
+    expect(() => insert(store, "config.flags", 0, 0)).toThrow("locked");
+    expect(() => update(store, ["config", replace({ flags: [] as number[] })])).toThrow("locked");
+    expect(peek(store)).toBe(state);
+    unlock();
+    update(store, ["config.mode", null]);
+    expect(peek(store, "config")).toEqual({ flags: [1] });
+    lock(store, "config");
+    update(store, ["config.mode", null], ["config", replace({ flags: [1] })]);
+    expect(peek(store, "config")).toEqual({ flags: [1] });
+    // Writes are checked against the earlier updates in the same batch
+    expect(() => update(store, ["config", null], ["config.flags", [1]])).toThrow("locked");
+    expect(peek(store, "config")).toEqual({ flags: [1] });
+  });
+
   test("computed store reflects derived value", () => {
     const store = createStore([1, 2, 3]);
     const derived = computed(store, "", (arr) => ({
@@ -1081,6 +3103,147 @@ if (import.meta.vitest) {
     expect(lSum).toBeCalledTimes(1); // sum didn't change
   });
 
+  test("computed stores are lazy", () => {
+    const store = createStore({ a: 1 });
+    const computeFn = vi.fn((a: number) => a * 2);
+    const derived = computed(store, "a", computeFn);
+    expect(computeFn).not.toHaveBeenCalled();
+    update(store, ["a", 2]);
+    expect(computeFn).not.toHaveBeenCalled();
+    expect(peek(derived)).toBe(4);
+    expect(peek(derived)).toBe(4);
+    expect(computeFn).toHaveBeenCalledTimes(1);
+    const listener = vi.fn();
+    const unsubscribe = listen(derived, "", listener);
+    expect(listener).not.toHaveBeenCalled();
+    update(store, ["a", 3]);
+    expect(listener).toHaveBeenCalledWith(6, "");
+    unsubscribe();
+    unsubscribe();
+    update(store, ["a", 4]);
+    expect(computeFn).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(peek(derived)).toBe(8);
+    const unsubscribeAll = listenAll(derived, listener);
+    update(store, ["a", 5]);
+    expect(listener).toHaveBeenLastCalledWith([["", 10]]);
+    unsubscribeAll();
+    unsubscribeAll();
+  });
+
+  test("computed stores from multiple sources", () => {
+    const cart = createStore({ items: [2, 3] });
+    const settings = createStore({ tax: { rate: 0.5 } });
+    const total = computed(
+      [
+        [cart, "items"],
+        [settings, "tax.rate"],
+      ],
+      (items, rate) => ({
+        count: items.length,
+        value: items.reduce((acc, val) => acc + val, 0) * (1 + rate),
+      }),
+    );
+    const lCount = vi.fn();
+    listen(total, "count", lCount);
+    expect(peek(total)).toEqual({ count: 2, value: 7.5 });
+    update(settings, ["tax.rate", 1]);
+    expect(peek(total, "value")).toBe(10);
+    insert(cart, "items", 0, 5);
+    expect(peek(total)).toEqual({ count: 3, value: 20 });
+    expect(lCount).toHaveBeenCalledTimes(1);
+  });
+
+  test("disposed computed stores keep their value", () => {
+    const store = createStore({ a: 1 });
+    const derived = computed(store, "a", (a) => ({ a }));
+    const listener = vi.fn();
+    listen(derived, "a", listener);
+    derived.dispose();
+    update(store, ["a", 2]);
+    expect(listener).not.toHaveBeenCalled();
+    expect(peek(derived)).toEqual({ a: 1 });
+    listen(derived, "", listener);
+    expect(peek(derived)).toEqual({ a: 1 });
+  });
+
+  test("select tracks the paths read by the selector", () => {
+    const store = createStore({ a: 1, b: { c: 2, d: 3 }, flag: true, x: "x", y: "y" });
+    const selector = vi.fn(
+      (state: { a: number; b: { c: number }; flag: boolean; x: string; y: string }) =>
+        `${state.a + state.b.c}${state.flag ? state.x : state.y}`,
+    );
+    const selected = select(store, selector);
+    const listener = vi.fn();
+    listen(selected, "", listener);
+    expect(peek(selected)).toBe("3x");
+    update(store, ["b.d", 4], ["y", "z"]);
+    expect(selector).toHaveBeenCalledTimes(1);
+    update(store, ["b.c", 3]);
+    expect(listener).toHaveBeenLastCalledWith("4x", "");
+    update(store, ["flag", false]);
+    update(store, ["x", "w"]);
+    expect(selector).toHaveBeenCalledTimes(3);
+    update(store, ["y", "v"]);
+    expect(listener).toHaveBeenLastCalledWith("4v", "");
+    expect(peek(select(createStore(2), (n) => n * 2))).toBe(4);
+  });
+
+  test("select tracks returned and iterated objects as a whole", () => {
+    type Item = { name: string; done: boolean };
+    const store = createStore({
+      items: [
+        { name: "a", done: true },
+        { name: "b", done: false },
+      ] as Item[],
+      tags: { red: 1 } as Record<string, number>,
+      meta: {} as { owner?: { name: string } },
+    });
+    const done = select(store, (state) => state.items.filter((item) => item.done));
+    const tags = select(store, (state) => ({
+      keys: Object.keys(state.tags),
+      blue: "blue" in state.tags,
+    }));
+    const owner = select(store, (state) => [state.meta.owner?.name, freeze([1])]);
+    const listener = vi.fn();
+    listen(done, "", listener);
+    listen(tags, "", listener);
+    listen(owner, "", listener);
+    expect(peek(done)[0]).toBe(peek(store, "items.0"));
+    expect(peek(tags)).toEqual({ keys: ["red"], blue: false });
+    update(store, ["items.1.name", "c"]);
+    expect(listener).not.toHaveBeenCalled();
+    update(store, ["items.0.name", "d"]);
+    expect(peek(done)).toEqual([{ name: "d", done: true }]);
+    update(store, ["tags.green", 2]);
+    expect(peek(tags, "keys")).toEqual(["red", "green"]);
+    update(store, ["tags.blue", 3]);
+    expect(peek(tags, "blue")).toBe(true);
+    update(store, ["meta.owner", { name: "e" }]);
+    expect(peek(owner)).toEqual(["e", [1]]);
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  test("chained computed stores are glitch-free", () => {
+    const store = createStore({ a: 1 });
+    const double = computed(store, "a", (a) => a * 2);
+    const sum = computed(
+      [
+        [store, "a"],
+        [double, ""],
+      ],
+      (a, b) => `${a}+${b}`,
+    );
+    const listener = vi.fn();
+    listen(sum, "", listener);
+    expect(peek(sum)).toBe("1+2");
+    update(store, ["a", 2]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("2+4", "");
+    update(store, ["a", 3]);
+    expect(listener.mock.calls.map(([value]) => value)).toEqual(["2+4", "3+6"]);
+  });
+
   test("sync store with external getter/setter", () => {
     let externalValue = { x: 1, y: 2 };
     const getter = () => externalValue;
@@ -1098,6 +3261,347 @@ if (import.meta.vitest) {
     expect(externalValue).toEqual({ x: 5, y: 15 });
   });
 
+  test("diff replaces values exactly", () => {
+    const store = createStore({
+      a: { b: 1, c: 2 } as { b?: number; c?: number } | number[],
+      d: [1, 2, 3],
+      e: { f: 1 } as { f: number } | number,
+      g: { h: 1 },
+    });
+    const listener = vi.fn();
+    const unchanged = vi.fn();
+    listen(store, "d.1", listener);
+    listen(store, "g.h", unchanged);
+    const target = { a: { b: 1 }, d: [1, 5], e: 3, g: peek(store, "g") };
+    update(store as Store, ...diff(peek(store), target));
+    expect(peek(store)).toEqual(target);
+    expect(listener).toHaveBeenCalledWith(5, "d.1");
+    expect(unchanged).not.toHaveBeenCalled();
+    update(store as Store, ...diff(peek(store, "a"), [4], "a"));
+    expect(peek(store, "a")).toEqual([4]);
+    expect(diff(1, undefined)).toEqual([["", DELETE]]);
+  });
+
+  test("restore a snapshot", () => {
+    const store = createStore({
+      user: { name: "Ann", tags: ["a"] } as { name: string; tags: string[]; nickname?: string },
+      count: 0,
+    });
+    const initial = peek(store);
+    const snap = snapshot(store);
+    update(store, ["user.nickname", "A"], ["user.tags", ["a", "b"]], ["count", 1]);
+    const listener = vi.fn();
+    const unchanged = vi.fn();
+    listenAll(store, listener);
+    listen(store, "user.name", unchanged);
+    restore(store, snap);
+    expect(peek(store)).toEqual(initial);
+    expect(peek(store, "user.tags")).toBe(initial.user.tags);
+    expect(listener).toHaveBeenCalledWith([
+      ["user.nickname", null],
+      ["user.tags.1", null],
+      ["user.tags.length", 1],
+      ["count", 0],
+    ]);
+    expect(unchanged).not.toHaveBeenCalled();
+    const user = focus(store, "user");
+    expect(() => restore(user, snap as Snapshot as Snapshot<never>)).toThrow("Invalid snapshot");
+    expect(() => restore(createStore(initial), snap)).toThrow("Invalid snapshot");
+    expect(() => restore(readonly(store) as StoreView as typeof store, snap)).toThrow("read-only");
+  });
+
+  test("time travel with a ring buffer of snapshots", () => {
+    const store = createStore({ count: 0 });
+    const size = 3;
+    const buffer: Snapshot<{ count: number }>[] = [];
+    let head = 0;
+    for (let i = 1; i <= 5; i++) {
+      update(store, ["count", i]);
+      buffer[head++ % size] = snapshot(store);
+    }
+    const listener = vi.fn();
+    listen(store, "count", listener);
+    restore(store, buffer[(head - size) % size]);
+    expect(peek(store, "count")).toBe(3);
+    restore(store, buffer[(head - 1) % size]);
+    expect(peek(store, "count")).toBe(5);
+    expect(listener.mock.calls).toEqual([
+      [3, "count"],
+      [5, "count"],
+    ]);
+  });
+
+  test("produce applies draft edits as minimal updates", () => {
+    const store = createStore({
+      user: { name: "Ann", tags: ["a"], nickname: "A" } as {
+        name: string;
+        tags: string[];
+        nickname?: string;
+      },
+      other: { x: 1 },
+    });
+    const other = peek(store, "other");
+    const listener = vi.fn();
+    const unchanged = vi.fn();
+    listen(store, "user.tags.1", listener);
+    listen(store, "user.name", unchanged);
+    const pairs = produce(store, (draft) => {
+      draft.user.tags.push("x");
+      delete draft.user.nickname;
+      draft.other.x = 1;
+    });
+    expect(pairs).toEqual([
+      ["user.nickname", DELETE],
+      ["user.tags.length", 2],
+      ["user.tags.1", "x"],
+    ]);
+    expect(peek(store)).toEqual({ user: { name: "Ann", tags: ["a", "x"] }, other: { x: 1 } });
+    expect(peek(store, "other")).toBe(other);
+    expect(listener).toHaveBeenCalledWith("x", "user.tags.1");
+    expect(unchanged).not.toHaveBeenCalled();
+    expect(produce(store, (draft) => [...draft.user.tags])).toEqual([]);
+  });
+
+  test("produce handles moved and reused drafts", () => {
+    type Item = { id: number };
+    const store = createStore({
+      items: [{ id: 1 }, { id: 2 }, { id: 3 }] as Item[],
+      pair: [] as Item[],
+    });
+    const [first] = peek(store, "items");
+    produce(focus(store, "items"), (draft) => {
+      draft.push(draft.shift() as Item);
+      draft[2].id = 4;
+    });
+    expect(peek(store, "items")).toEqual([{ id: 2 }, { id: 3 }, { id: 4 }]);
+    produce(store, (draft) => {
+      draft.pair = [draft.items[1], draft.items[1], freeze(first)];
+      draft.items[1].id = 5;
+    });
+    expect(peek(store)).toEqual({
+      items: [{ id: 2 }, { id: 5 }, { id: 4 }],
+      pair: [{ id: 5 }, { id: 5 }, { id: 1 }],
+    });
+  });
+
+  test("replace deletes missing keys", () => {
+    const store = createStore({
+      user: { name: "Ann", age: 30 } as { name: string; age?: number },
+      list: [1, 2] as number[] | { a: number },
+      tags: {} as { a?: { b?: number; c?: number } },
+    });
+    const listener = vi.fn();
+    listen(store, "user.age", listener);
+    update(store, ["user", replace({ name: "Bob" })]);
+    expect(peek(store, "user")).toEqual({ name: "Bob" });
+    expect(listener).toHaveBeenCalledWith(undefined, "user.age");
+    update(store, ["list", replace({ a: 1 })]);
+    expect(peek(store, "list")).toEqual({ a: 1 });
+    update(store, ["list", replace(() => [3])]);
+    expect(peek(store, "list")).toEqual([3]);
+    patch(store, { tags: { a: { b: 1, c: 2 } } });
+    type Tags = { a?: { b?: number; c?: number } };
+    patch(store, { tags: replace<Tags>((prev) => ({ a: { ...prev.a, b: undefined } })) });
+    expect(peek(store, "tags")).toEqual({ a: { c: 2 } });
+    patch(store, { tags: replace<Tags>(freeze({ a: { b: 1 } })) });
+    expect(peek(store, "tags")).toEqual({ a: { b: 1 } });
+    const user = peek(store, "user");
+    update(store, ["user.name", "Cat"], ["user", replace(user)]);
+    expect(peek(store, "user")).toBe(user);
+  });
+
+  test("array operations", () => {
+    const store = createStore({
+      items: [{ id: 1, x: 1 }, { id: 2 }, { id: 3 }] as { id: number; x?: number }[],
+      other: undefined as number[] | undefined,
+    });
+    const [a, b, c] = peek(store, "items");
+    const listener = vi.fn();
+    const unchanged = vi.fn();
+    listen(store, "items.1.id", listener);
+    listen(store, "items.0", unchanged);
+    remove(store, "items", 1);
+    expect(peek(store, "items")).toEqual([a, c]);
+    expect(peek(store, "items.1")).toBe(c);
+    expect(listener).toHaveBeenCalledWith(3, "items.1.id");
+    expect(unchanged).not.toHaveBeenCalled();
+    insert(store, "items", 1, b);
+    expect(peek(store, "items")).toEqual([a, b, c]);
+    move(store, "items", 0, -1);
+    expect(peek(store, "items")).toEqual([b, c, a]);
+    expect(peek(store, "items.0")).toBe(b);
+    move(store, "items", 2, 0);
+    move(store, "items", 0, 2);
+    expect(peek(store, "items.2")).toBe(a);
+    transaction(store, () => {
+      splice(store, "items", 0, 2, { id: 4 });
+      insert(store, "items", 0, { id: 5 });
+    });
+    expect(peek(store, "items")).toEqual([{ id: 5 }, { id: 4 }, a]);
+    insert(store, "other", 0, 1, 2);
+    expect(peek(store, "other")).toEqual([1, 2]);
+    remove(focus(store, "items"), "", 0, 2);
+    expect(peek(store, "items")).toEqual([a]);
+  });
+
+  test("keyed items follow their keys", () => {
+    const store = createStore({
+      list: [
+        { id: 1, n: 0 },
+        { id: 2, n: 0 },
+      ],
+    });
+    const list = focus(store, "list");
+    const keyBy = (item: { id: number }) => item.id;
+    const first = keyedItems(list, keyBy);
+    const listener = vi.fn();
+    listen(first[1].store, "n", listener);
+    move(store, "list", 1, 0);
+    insert(store, "list", 2, { id: 3, n: 0 });
+    const second = keyedItems(list, keyBy, first);
+    expect(second.map(({ key, index }) => [key, index])).toEqual([
+      [2, 0],
+      [1, 1],
+      [3, 2],
+    ]);
+    expect(second[0].store).toBe(first[1].store);
+    expect(listener).not.toHaveBeenCalled();
+    update(second[0].store, ["n", 5]);
+    expect(peek(store, "list.0")).toEqual({ id: 2, n: 5 });
+    patch(store, { list: { 0: { n: 6 } } });
+    keyedItems(list, keyBy, second);
+    expect(listener).toHaveBeenCalledWith(6, "n");
+    remove(store, "list", 0, 3);
+    expect(keyedItems(list, keyBy, second)).toEqual([]);
+    expect(() => peek(second[0].store)).toThrow();
+  });
+
+  test("keyed items of read-only arrays", () => {
+    const store = createStore({ list: [{ id: 1, n: 0 }] });
+    const doubled = computed(store, "list", (list) =>
+      list.map((item) => ({ ...item, n: item.n * 2 })),
+    );
+    const keyBy = (item: { id: number }) => item.id;
+    const batches = vi.fn();
+    listenAll(store, batches);
+    const first = keyedItems(focus(store, "list"), keyBy);
+    const items = keyedItems(doubled, keyBy);
+    update(store, ["list.0.n", 2]);
+    expect(batches).toHaveBeenCalledTimes(1);
+    keyedItems(focus(store, "list"), keyBy, first);
+    expect(keyedItems(doubled, keyBy, items)[0].store).toBe(items[0].store);
+    expect(peek(items[0].store, "n")).toBe(4);
+    expect(batches).toHaveBeenCalledTimes(1);
+    update(items[0].store as StoreOf<{ id: number; n: number }>, ["n", 5]);
+    expect(peek(store, "list.0.n")).toBe(2);
+  });
+
+  test("interceptors see items of an exact replacement", () => {
+    const store = createStore({ items: [{ qty: 1 }, { qty: 2 }] });
+    const interceptor = vi.fn((pair: PatchPair<AnyState>) => [pair]);
+    intercept(store, "items.*", interceptor);
+    intercept(store, "items.*.qty", ([path, qty]) => [[path, Math.max(0, qty as number)]]);
+    splice(store, "items", 0, 1, { qty: -1 }, { qty: 3 });
+    expect(peek(store, "items")).toEqual([{ qty: 0 }, { qty: 3 }, { qty: 2 }]);
+    remove(store, "items", 0, 3);
+    expect(peek(store, "items")).toEqual([]);
+    expect(interceptor).toHaveBeenCalledWith(["items.2", DELETE]);
+    update(store, ["items", replace(null)]);
+    expect(peek(store, "items")).toBeUndefined();
+  });
+
+  test("codec values are frozen atoms", () => {
+    const date = new Date(0);
+    const store = createStore({ when: date, tags: new Set(["a"]), big: BigInt(1) });
+    expect(peek(store, "when")).toBe(date);
+    expect(Object.isFrozen(date)).toBe(true);
+    expect(getPrimitiveEntries(store)).toEqual(
+      expect.arrayContaining([
+        ["when", date],
+        ["big", BigInt(1)],
+      ]),
+    );
+    const listener = vi.fn();
+    listen(store, "tags", listener);
+    patch(store, { tags: new Set(["b"]) });
+    expect(peek(store, "tags")).toEqual(new Set(["b"]));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test("encode and decode with codecs", () => {
+    class Point {
+      x: number;
+      y: number;
+      constructor(x: number, y: number) {
+        this.x = x;
+        this.y = y;
+      }
+    }
+    const unregister = registerCodec<Point, number[]>({
+      name: "Point",
+      test: (value) => value instanceof Point,
+      encode: (point) => [point.x, point.y],
+      decode: ([x, y]) => new Point(x, y),
+    });
+    const value = {
+      map: new Map([["origin", new Point(0, 0)]]),
+      list: [new Date(1000), BigInt(2)],
+      atom: setAtom({ a: 1 }),
+      atomArray: setAtom([1, 2]),
+      tags: new Set(["x"]),
+    };
+    const json = JSON.stringify(encode(value));
+    expect(JSON.parse(json).list[0]).toEqual({ $codec: "Date", value: "1970-01-01T00:00:01.000Z" });
+    expect(decode(JSON.parse(json))).toEqual(value);
+    unregister();
+    unregister();
+    expect((decode(JSON.parse(json)) as { map: unknown }).map).toEqual(
+      new Map([["origin", { $codec: "Point", value: [0, 0] }]]),
+    );
+    expect(isAtomic(new Point(1, 2))).toBe(false);
+  });
+
+  test("DELETE deletes keys", () => {
+    const store = createStore({ a: 1, b: { c: 2, d: 3 } } as { a?: number; b: { c?: number } });
+    patch(store, { a: DELETE, b: { c: DELETE } });
+    expect(peek(store)).toEqual({ b: { d: 3 } });
+    update(store, ["b", DELETE]);
+    expect(peek(store, "b")).toBeUndefined();
+    expect(decode(JSON.parse(JSON.stringify(encode([DELETE]))))).toEqual([DELETE]);
+  });
+
+  test("literalNull stores null values", () => {
+    const store = createStore(
+      {
+        a: null as string | null,
+        b: 1 as number | undefined,
+        c: { d: null } as { d: null } | null,
+      },
+      { literalNull: true },
+    );
+    expect(peek(store)).toEqual({ a: null, b: 1, c: { d: null } });
+    const listener = vi.fn();
+    const allListener = vi.fn();
+    listen(store, "a", listener);
+    listenAll(store, allListener);
+    update(store, ["a", "x"]);
+    update(store, ["a", null], ["b", DELETE]);
+    expect(listener).toHaveBeenLastCalledWith(null, "a");
+    expect(allListener).toHaveBeenLastCalledWith([
+      ["a", null],
+      ["b", DELETE],
+    ]);
+    patch(store, { c: null });
+    expect(peek(store)).toEqual({ a: null, c: null });
+    patch(store, { c: replace<{ d: null } | null>({ d: null }) });
+    expect(peek(store)).toEqual({ a: null, c: { d: null } });
+    update(store as Store, ...diff(peek(store), { c: null }));
+    expect(peek(store)).toEqual({ c: null });
+    expect(getPrimitiveEntries(store)).toEqual([["c", null]]);
+    patch(store, DELETE);
+    expect(peek(store)).toBeUndefined();
+  });
+
   test("listen on root after partial update", () => {
     const store = createStore([{ a: 1 }, { a: 2 }]);
     const listener = vi.fn();
@@ -0,0 +1,269 @@
+import {
+  type AnyState,
+  decode,
+  encode,
+  flush,
+  joinPath,
+  listenAll,
+  peek,
+  replace,
+  type StateValue,
+  type Store,
+  type StoreView,
+  splitPath,
+  update,
+} from "./core.js";
+
+/**
+ * A message sent by the Redux DevTools extension to a connection.
+ */
+export type DevtoolsMessage = {
+  type: string;
+  payload?: {
+    type: string;
+    status?: boolean;
+    nextLiftedState?: { computedStates: { state: unknown }[] };
+  };
+  state?: string;
+};
+
+/**
+ * The parts of a Redux DevTools extension connection that are used by {@link connectDevtools}.
+ */
+export interface DevtoolsConnection {
+  init(state: unknown): void;
+  send(action: unknown, state: unknown): void;
+  subscribe(listener: (message: DevtoolsMessage) => void): (() => void) | undefined;
+}
+
+/**
+ * The Redux DevTools extension, as exposed on `window.__REDUX_DEVTOOLS_EXTENSION__`.
+ */
+export interface DevtoolsExtension {
+  connect(options: { name?: string }): DevtoolsConnection;
+}
+
+/**
+ * Options for {@link connectDevtools}.
+ */
+export interface DevtoolsOptions {
+  /**
+   * The name of the instance shown in the extension (default: the page title)
+   */
+  name?: string;
+}
+
+// Encodes the pairs within a prefix, with paths relative to it
+function relativePairs(
+  prefix: readonly string[],
+  pairs: readonly (readonly [PropertyKey, unknown])[],
+): [string, StateValue][] {
+  const relative: [string, StateValue][] = [];
+  for (const [path, value] of pairs) {
+    const segments = splitPath(path);
+    if (prefix.every((segment, i) => segments[i] === segment)) {
+      relative.push([joinPath(...segments.slice(prefix.length)), encode(value)]);
+    }
+  }
+  return relative;
+}
+
+/**
+ * Connects a store to the Redux DevTools browser extension. Each batch of changes is reported as an action whose type
+ * lists the changed paths, with the path-value pairs as its `pairs` property. For a focused store, paths are relative to it,
+ * and batches that don't change anything within it aren't reported.
+ * The extension can jump to earlier states, import and export the history, commit, reset, and pause recording.
+ * States and pairs are sent with {@link encode}, so codec values survive the round trip.
+ * If the extension isn't installed, this does nothing.
+ * @param store The Store object
+ * @param options Options for the connection
+ * @returns A function to disconnect from the extension
+ */
+export function connectDevtools<T extends AnyState>(
+  store: StoreView<T, true>,
+  options: DevtoolsOptions = {},
+): () => void {
+  const extension = (globalThis as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension })
+    .__REDUX_DEVTOOLS_EXTENSION__;
+  if (!extension) {
+    return () => {};
+  }
+  const anyStore = store as StoreView as Store;
+  const prefix = splitPath(store.prefix);
+  const connection = extension.connect({ name: options.name });
+  const initial = peek(anyStore) as StateValue;
+  let paused = false;
+  let applying = false;
+  const apply = (state: StateValue): void => {
+    applying = true;
+    try {
+      update(anyStore, ["", replace(state)]);
+      // Apply the changes now even if the store is deferred, so they aren't reported as a new action
+      flush(anyStore);
+    } finally {
+      applying = false;
+    }
+  };
+  const parse = (state: string | undefined) => decode(JSON.parse(state as string));
+  connection.init(encode(initial));
+  const unsubscribe = listenAll(anyStore, (pairs) => {
+    const relative = relativePairs(prefix, pairs);
+    if (applying || paused || !relative.length) {
+      return;
+    }
+    const action = { type: relative.map(([path]) => path).join(", "), pairs: relative };
+    connection.send(action, encode(peek(anyStore)));
+  });
+  const unsubscribeMessages = connection.subscribe((message) => {
+    if (message.type !== "DISPATCH" || !message.payload) {
+      return;
+    }
+    switch (message.payload.type) {
+      case "JUMP_TO_STATE":
+      case "JUMP_TO_ACTION":
+        apply(parse(message.state));
+        break;
+      case "ROLLBACK":
+        apply(parse(message.state));
+        connection.init(encode(peek(anyStore)));
+        break;
+      case "RESET":
+        apply(initial);
+        connection.init(encode(initial));
+        break;
+      case "COMMIT":
+        connection.init(encode(peek(anyStore)));
+        break;
+      case "IMPORT_STATE": {
+        const lifted = message.payload.nextLiftedState;
+        const states = lifted?.computedStates ?? [];
+        if (states.length) {
+          apply(decode(states[states.length - 1].state));
+          connection.send(null, lifted);
+        }
+        break;
+      }
+      case "PAUSE_RECORDING":
+        paused = !!message.payload.status;
+        break;
+    }
+  });
+  return () => {
+    unsubscribe();
+    unsubscribeMessages?.();
+  };
+}
+
+/* v8 ignore start -- @preserve */
+if (import.meta.vitest) {
+  const { test, expect, vi, afterEach } = import.meta.vitest;
+  const { createStore, focus } = await import("./core.js");
+
+  type Global = { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension };
+
+  // A stub of the extension, recording what it is sent and letting tests send messages back
+  function stubExtension() {
+    let listener: ((message: DevtoolsMessage) => void) | undefined;
+    const connection = {
+      init: vi.fn(),
+      send: vi.fn(),
+      subscribe: vi.fn((fn: (message: DevtoolsMessage) => void) => {
+        listener = fn;
+        return () => {
+          listener = undefined;
+        };
+      }),
+    };
+    const extension = { connect: vi.fn(() => connection) };
+    (globalThis as Global).__REDUX_DEVTOOLS_EXTENSION__ = extension;
+    const dispatch = (type: string, rest: Omit<DevtoolsMessage, "type" | "payload"> = {}) =>
+      listener?.({ type: "DISPATCH", payload: { type }, ...rest });
+    return {
+      extension,
+      connection,
+      dispatch,
+      message: (message: DevtoolsMessage) => listener?.(message),
+    };
+  }
+
+  afterEach(() => {
+    delete (globalThis as Global).__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  test("connectDevtools reports batches as actions", () => {
+    const { extension, connection } = stubExtension();
+    const store = createStore({ user: { name: "Ann" }, when: new Date(0) });
+    const disconnect = connectDevtools(store, { name: "app" });
+    expect(extension.connect).toHaveBeenCalledWith({ name: "app" });
+    expect(connection.init).toHaveBeenCalledWith({
+      user: { name: "Ann" },
+      when: encode(new Date(0)),
+    });
+    update(store, ["user.name", "Bob"], ["when", new Date(1)]);
+    expect(connection.send).toHaveBeenCalledWith(
+      {
+        type: "user.name, when",
+        pairs: [
+          ["user.name", "Bob"],
+          ["when", encode(new Date(1))],
+        ],
+      },
+      { user: { name: "Bob" }, when: encode(new Date(1)) },
+    );
+    disconnect();
+    update(store, ["user.name", "Cy"]);
+    expect(connection.send).toHaveBeenCalledTimes(1);
+  });
+
+  test("connectDevtools jumps, resets and commits", () => {
+    const { connection, dispatch, message } = stubExtension();
+    const store = createStore({ count: 0 }, { scheduler: "microtask" });
+    connectDevtools(store);
+    update(store, ["count", 1]);
+    flush(store);
+    dispatch("JUMP_TO_STATE", { state: JSON.stringify({ count: 5 }) });
+    expect(peek(store, "count")).toBe(5);
+    dispatch("JUMP_TO_ACTION", { state: JSON.stringify({ count: 6 }) });
+    expect(peek(store, "count")).toBe(6);
+    expect(connection.send).toHaveBeenCalledTimes(1);
+    dispatch("COMMIT");
+    expect(connection.init).toHaveBeenLastCalledWith({ count: 6 });
+    dispatch("ROLLBACK", { state: JSON.stringify({ count: 2 }) });
+    expect(peek(store, "count")).toBe(2);
+    expect(connection.init).toHaveBeenLastCalledWith({ count: 2 });
+    dispatch("RESET");
+    expect(peek(store, "count")).toBe(0);
+    expect(connection.init).toHaveBeenLastCalledWith({ count: 0 });
+    message({ type: "ACTION" });
+    message({ type: "DISPATCH" });
+    dispatch("TOGGLE_ACTION");
+    expect(peek(store, "count")).toBe(0);
+  });
+
+  test("connectDevtools imports state and pauses recording", () => {
+    const { connection, dispatch, message } = stubExtension();
+    const store = createStore({ a: { b: 1 }, c: 2 });
+    connectDevtools(focus(store, "a"));
+    const nextLiftedState = { computedStates: [{ state: { b: 2 } }, { state: { b: 3 } }] };
+    message({ type: "DISPATCH", payload: { type: "IMPORT_STATE", nextLiftedState } });
+    expect(peek(store)).toEqual({ a: { b: 3 }, c: 2 });
+    expect(connection.send).toHaveBeenCalledWith(null, nextLiftedState);
+    message({ type: "DISPATCH", payload: { type: "IMPORT_STATE" } });
+    message({ type: "DISPATCH", payload: { type: "PAUSE_RECORDING", status: true } });
+    update(store, ["a.b", 4]);
+    expect(connection.send).toHaveBeenCalledTimes(1);
+    dispatch("PAUSE_RECORDING");
+    update(store, ["a.b", 5]);
+    expect(connection.send).toHaveBeenLastCalledWith({ type: "b", pairs: [["b", 5]] }, { b: 5 });
+    update(store, ["c", 3]);
+    expect(connection.send).toHaveBeenCalledTimes(2);
+  });
+
+  test("connectDevtools does nothing without the extension", () => {
+    const store = createStore({ a: 1 });
+    const disconnect = connectDevtools(store);
+    update(store, ["a", 2]);
+    disconnect();
+    expect(peek(store, "a")).toBe(2);
+  });
+}
@@ -0,0 +1,404 @@
+import {
+  type AnyState,
+  createStore,
+  destroyStore,
+  diff,
+  flush,
+  isAtomic,
+  listenAll,
+  patch,
+  peek,
+  readonly,
+  type StateValue,
+  type Store,
+  type StoreOf,
+  type StoreView,
+  type StoreViewOf,
+  update,
+} from "./core.js";
+
+/**
+ * Options for {@link createHistory}.
+ */
+export interface HistoryOptions<T extends AnyState> {
+  /**
+   * The maximum number of undo steps to keep (default: 100)
+   */
+  limit?: number;
+
+  /**
+   * The paths to record. Changes outside of these paths are not undone or redone. (default: the whole store)
+   */
+  paths?: readonly (keyof T)[];
+
+  /**
+   * Consecutive batches that change the same primitive paths within this many milliseconds are merged into a single undo step,
+   * so that typing into a text field can be undone in one go. (default: 0, which never merges)
+   */
+  mergeWindow?: number;
+}
+
+/**
+ * The observable state of a history, as exposed by the store returned from {@link createHistory}.
+ */
+export type HistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+/**
+ * A read-only Store describing an undo/redo history. These cannot be constructed directly; use {@link createHistory} instead.
+ */
+export type HistoryStore = StoreViewOf<HistoryState, false>;
+
+type HistoryEntry = {
+  _before: StateValue[];
+  _after: StateValue[];
+  _changed: string;
+  _time: number;
+};
+
+// Holds the recorded entries and subscription for a HistoryStore
+interface HistoryImpl {
+  readonly _store: Store;
+  readonly _status: StoreOf<HistoryState>;
+  readonly _paths: readonly PropertyKey[];
+  readonly _undo: HistoryEntry[];
+  readonly _redo: HistoryEntry[];
+  _values: StateValue[];
+  // The values being restored by an undo or redo, until the listener has seen them applied
+  _applying: StateValue[] | null;
+  readonly _unsubscribe: () => void;
+}
+
+// Maps HistoryStore objects to their implementations
+const historyMap = new WeakMap<HistoryStore, HistoryImpl>();
+
+function getHistoryImpl(history: HistoryStore): HistoryImpl {
+  const historyImpl = historyMap.get(history);
+  if (!historyImpl) {
+    throw new Error("Invalid history");
+  }
+  return historyImpl;
+}
+
+function readValues(store: Store, paths: readonly PropertyKey[]): StateValue[] {
+  return paths.map((path) => peek(store, path) as StateValue);
+}
+
+function updateStatus(impl: HistoryImpl): void {
+  patch(impl._status, { canUndo: impl._undo.length > 0, canRedo: impl._redo.length > 0 });
+}
+
+/**
+ * Records changes to a store so that they can be reverted with {@link undo} and re-applied with {@link redo}.
+ * Each batch of changes delivered by {@link listenAll} becomes one undo step, unless merged according to `mergeWindow`.
+ * @param store The Store object to record
+ * @param options Options for the history
+ * @returns A read-only Store with `canUndo` and `canRedo` paths, to be passed to the other history functions
+ */
+export function createHistory<T extends AnyState>(
+  store: Store<T>,
+  options: HistoryOptions<T> = {},
+): HistoryStore {
+  const { limit = 100, paths = [""], mergeWindow = 0 } = options;
+  const status = createStore<HistoryState>({ canUndo: false, canRedo: false });
+  const impl: HistoryImpl = {
+    _store: store as StoreView as Store,
+    _status: status,
+    _paths: paths,
+    _undo: [],
+    _redo: [],
+    _values: readValues(store as StoreView as Store, paths),
+    _applying: null,
+    _unsubscribe: listenAll(
+      store,
+      (pairs) => {
+        const before = impl._values;
+        const after = readValues(impl._store, paths);
+        impl._values = after;
+        const applying = impl._applying;
+        if (applying?.every((value, i) => !diff(after[i], value).length)) {
+          impl._applying = null;
+          return;
+        }
+        // Unchanged values are ref-stable, so this tells us whether any recorded path was touched
+        if (after.every((value, i) => value === before[i])) {
+          return;
+        }
+        const changed = pairs
+          .filter(([, value]) => isAtomic(value))
+          .map(([path]) => String(path))
+          .sort()
+          .join("\n");
+        const time = Date.now();
+        const last = impl._undo[impl._undo.length - 1];
+        if (
+          last &&
+          !impl._redo.length &&
+          last._changed === changed &&
+          time - last._time < mergeWindow
+        ) {
+          last._after = after;
+          last._time = time;
+        } else {
+          impl._undo.push({ _before: before, _after: after, _changed: changed, _time: time });
+          impl._undo.splice(0, impl._undo.length - limit);
+          impl._redo.length = 0;
+        }
+        updateStatus(impl);
+      },
+      true,
+    ),
+  };
+  const history = readonly(status);
+  historyMap.set(history, impl);
+  return history;
+}
+
+function applyValues(impl: HistoryImpl, values: StateValue[]): void {
+  const pairs = impl._paths.flatMap((path, i) => diff(peek(impl._store, path), values[i], path));
+  // When called from a listener, the changes are only applied after the current batch,
+  // so the listener looks out for them rather than skipping the next batch it sees
+  impl._applying = pairs.length ? values : null;
+  try {
+    update(impl._store, ...pairs);
+    // Apply the changes now even if the store is deferred, so they aren't recorded as a new step
+    flush(impl._store);
+  } catch (error) {
+    impl._applying = null;
+    throw error;
+  }
+}
+
+/**
+ * Reverts the most recent undo step.
+ * @param history The HistoryStore returned by {@link createHistory}
+ * @returns True if a step was undone, false if there was nothing to undo
+ */
+export function undo(history: HistoryStore): boolean {
+  const impl = getHistoryImpl(history);
+  const entry = impl._undo.pop();
+  if (!entry) {
+    return false;
+  }
+  applyValues(impl, entry._before);
+  impl._redo.push(entry);
+  updateStatus(impl);
+  return true;
+}
+
+/**
+ * Re-applies the most recently undone step.
+ * @param history The HistoryStore returned by {@link createHistory}
+ * @returns True if a step was redone, false if there was nothing to redo
+ */
+export function redo(history: HistoryStore): boolean {
+  const impl = getHistoryImpl(history);
+  const entry = impl._redo.pop();
+  if (!entry) {
+    return false;
+  }
+  applyValues(impl, entry._after);
+  impl._undo.push(entry);
+  updateStatus(impl);
+  return true;
+}
+
+/**
+ * Discards all undo and redo steps, keeping the current state.
+ * @param history The HistoryStore returned by {@link createHistory}
+ */
+export function clearHistory(history: HistoryStore): void {
+  const impl = getHistoryImpl(history);
+  impl._undo.length = 0;
+  impl._redo.length = 0;
+  updateStatus(impl);
+}
+
+/**
+ * Stops recording changes and releases the history. Future operations on the history will throw errors.
+ * @param history The HistoryStore returned by {@link createHistory}
+ */
+export function destroyHistory(history: HistoryStore): void {
+  const impl = getHistoryImpl(history);
+  impl._unsubscribe();
+  destroyStore(impl._status);
+  historyMap.delete(history);
+}
+
+/* v8 ignore start -- @preserve */
+if (import.meta.vitest) {
+  const { test, expect, vi } = import.meta.vitest;
+  const { focus, listen, lock, move, remove } = await import("./core.js");
+
+  test("undo and redo changes", () => {
+    const store = createStore({ a: 1, b: { c: 2 } as { c?: number; d?: number } });
+    const history = createHistory(store);
+    expect(peek(history)).toEqual({ canUndo: false, canRedo: false });
+    expect(undo(history)).toBe(false);
+    update(store, ["a", 2]);
+    patch(store, { b: { c: null, d: 3 } });
+    expect(peek(history)).toEqual({ canUndo: true, canRedo: false });
+    expect(undo(history)).toBe(true);
+    expect(peek(store)).toEqual({ a: 2, b: { c: 2 } });
+    expect(undo(history)).toBe(true);
+    expect(peek(store)).toEqual({ a: 1, b: { c: 2 } });
+    expect(peek(history)).toEqual({ canUndo: false, canRedo: true });
+    expect(redo(history)).toBe(true);
+    expect(redo(history)).toBe(true);
+    expect(redo(history)).toBe(false);
+    expect(peek(store)).toEqual({ a: 2, b: { d: 3 } });
+  });
+
+  test("new changes discard redo steps", () => {
+    const store = createStore({ a: 1 });
+    const history = createHistory(store);
+    update(store, ["a", 2]);
+    undo(history);
+    update(store, ["a", 3]);
+    expect(peek(history, "canRedo")).toBe(false);
+    undo(history);
+    expect(peek(store, "a")).toBe(1);
+  });
+
+  test("undo only notifies changed paths", () => {
+    const store = createStore({ items: [{ name: "a" }, { name: "b" }] });
+    const history = createHistory(store);
+    patch(focus(store, "items"), (prev) => [...prev, { name: "c" }]);
+    const listener = vi.fn();
+    const unchanged = vi.fn();
+    listen(store, "items.length", listener);
+    listen(store, "items.0.name", unchanged);
+    undo(history);
+    expect(peek(store, "items")).toEqual([{ name: "a" }, { name: "b" }]);
+    expect(listener).toHaveBeenCalledWith(2, "items.length");
+    expect(unchanged).not.toHaveBeenCalled();
+  });
+
+  test("undo array operations", () => {
+    const store = createStore({ items: ["a", "b", "c"] });
+    const history = createHistory(store);
+    remove(store, "items", 0);
+    move(store, "items", 0, 1);
+    expect(peek(store, "items")).toEqual(["c", "b"]);
+    undo(history);
+    expect(peek(store, "items")).toEqual(["b", "c"]);
+    undo(history);
+    expect(peek(store, "items")).toEqual(["a", "b", "c"]);
+  });
+
+  test("history only records the given paths", () => {
+    const store = createStore({ data: { value: 1 }, ui: { open: false } });
+    const history = createHistory(focus(store, "data"), { paths: ["value"] });
+    patch(store, { ui: { open: true } });
+    expect(peek(history, "canUndo")).toBe(false);
+    patch(store, { data: { value: 2 }, ui: { open: false } });
+    undo(history);
+    expect(peek(store)).toEqual({ data: { value: 1 }, ui: { open: false } });
+  });
+
+  test("undo with a deferred store", async () => {
+    const store = createStore({ a: 1 }, { scheduler: "microtask" });
+    const history = createHistory(store);
+    update(store, ["a", 2]);
+    await Promise.resolve();
+    undo(history);
+    expect(peek(store, "a")).toBe(1);
+    expect(peek(history, "canRedo")).toBe(true);
+  });
+
+  test("undo and redo from a listener", () => {
+    const store = createStore({ a: 1, b: 0 });
+    const history = createHistory(store, { paths: ["a"] });
+    update(store, ["a", 2]);
+    const unsubscribe = listen(store, "b", () => undo(history));
+    update(store, ["b", 1]);
+    expect(peek(store)).toEqual({ a: 1, b: 1 });
+    expect(peek(history)).toEqual({ canUndo: false, canRedo: true });
+    unsubscribe();
+    listen(store, "b", () => redo(history));
+    update(store, ["b", 2]);
+    expect(peek(store)).toEqual({ a: 2, b: 2 });
+    expect(peek(history)).toEqual({ canUndo: true, canRedo: false });
+    update(store, ["a", 3]);
+    undo(history);
+    expect(peek(store, "a")).toBe(2);
+  });
+
+  test("failed undo", () => {
+    const store = createStore({ a: 1 });
+    const history = createHistory(store);
+    update(store, ["a", 2]);
+    const unlock = lock(store, "a");
+    expect(() => undo(history)).toThrow("locked");
+    unlock();
+    update(store, ["a", 3]);
+    undo(history);
+    expect(peek(store, "a")).toBe(2);
+  });
+
+  test("history is limited", () => {
+    const store = createStore({ a: 0 });
+    const history = createHistory(store, { limit: 2 });
+    for (let i = 1; i <= 5; i++) {
+      update(store, ["a", i]);
+    }
+    while (undo(history));
+    expect(peek(store, "a")).toBe(3);
+  });
+
+  test("consecutive changes are merged within the window", () => {
+    vi.useFakeTimers();
+    const store = createStore({ text: "", other: 0 });
+    const history = createHistory(store, { mergeWindow: 500 });
+    update(store, ["text", "h"]);
+    vi.advanceTimersByTime(100);
+    update(store, ["text", "hi"]);
+    update(store, ["other", 1]);
+    update(store, ["text", "hi!"]);
+    vi.advanceTimersByTime(1000);
+    update(store, ["text", "hi!!"]);
+    vi.useRealTimers();
+    undo(history);
+    expect(peek(store)).toEqual({ text: "hi!", other: 1 });
+    undo(history);
+    expect(peek(store)).toEqual({ text: "hi", other: 1 });
+    undo(history);
+    expect(peek(store)).toEqual({ text: "hi", other: 0 });
+    undo(history);
+    expect(peek(store)).toEqual({ text: "", other: 0 });
+  });
+
+  test("merged changes that cancel out", () => {
+    vi.useFakeTimers();
+    const store = createStore({ text: "" });
+    const history = createHistory(store, { mergeWindow: 500 });
+    update(store, ["text", "h"]);
+    update(store, ["text", ""]);
+    vi.useRealTimers();
+    expect(undo(history)).toBe(true);
+    update(store, ["text", "a"]);
+    expect(peek(history)).toEqual({ canUndo: true, canRedo: false });
+  });
+
+  test("history status can't be written to", () => {
+    const store = createStore({ a: 1 });
+    const history = createHistory(store);
+    const status = history as StoreView as StoreOf<HistoryState>;
+    expect(() => update(status, ["canUndo", true])).toThrow("Cannot write to a read-only store");
+    expect(peek(history, "canUndo")).toBe(false);
+  });
+
+  test("clear and destroy history", () => {
+    const store = createStore({ a: 1 });
+    const history = createHistory(store);
+    update(store, ["a", 2]);
+    clearHistory(history);
+    expect(peek(history, "canUndo")).toBe(false);
+    destroyHistory(history);
+    update(store, ["a", 3]);
+    expect(() => undo(history)).toThrow("Invalid history");
+    expect(() => peek(history)).toThrow("destroyed");
+  });
+}
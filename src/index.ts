@@ -1,5 +1,9 @@
+export * from "./channel.js";
 export * from "./core.js";
+export * from "./devtools.js";
 export * from "./form.js";
+export * from "./history.js";
+export * from "./jsonPatch.js";
 export * from "./react.js";
 export * from "./utils.js";
 export * from "./validate.js";
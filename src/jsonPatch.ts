@@ -0,0 +1,364 @@
+import {
+  type AnyState,
+  diff,
+  getBatchStates,
+  isAtomic,
+  produce,
+  replace,
+  type StateConstraint,
+  type StateValue,
+  type Store,
+  type StoreView,
+  splitPath,
+  transaction,
+  update,
+} from "./core.js";
+
+/**
+ * A JSON Patch operation, as defined by RFC 6902.
+ */
+export type JsonPatchOperation =
+  | { op: "add" | "replace" | "test"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move" | "copy"; from: string; path: string };
+
+type Container = Record<string, unknown>;
+
+function toPointer(segments: readonly string[]): string {
+  return segments.map((segment) => `/${segment.replace(/~/g, "~0").replace(/\//g, "~1")}`).join("");
+}
+
+function fromPointer(pointer: string): string[] {
+  if (pointer && pointer[0] !== "/") {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isContainer(value: unknown): value is Container {
+  return !isAtomic(value);
+}
+
+// Whether both values are objects, or both are arrays
+function isSameKind(a: unknown, b: unknown): boolean {
+  return isContainer(a) && isContainer(b) && Array.isArray(a) === Array.isArray(b);
+}
+
+function hasKey(container: Container, key: string): boolean {
+  return Array.isArray(container) ? /^\d+$/.test(key) && +key < container.length : key in container;
+}
+
+/**
+ * Converts a batch of path-value pairs, as delivered by {@link listenAll}, into JSON Patch operations.
+ * The pairs only say which paths changed, so the states before and after the batch are needed to tell additions from replacements,
+ * to add new objects and arrays as a whole, and to turn shortened arrays into `remove` operations.
+ * For pairs passed to a `listenAll` listener, these are looked up with {@link getBatchStates}; for other pairs, they must be given.
+ * Values are included as they are in the state, without encoding codec values.
+ * @param pairs The path-value pairs of the batch
+ * @param previous The state of the root store before the batch (default: looked up from the pairs)
+ * @param next The state of the root store after the batch (default: looked up from the pairs)
+ * @returns The equivalent JSON Patch operations
+ * @example
+ * ```ts
+ * listenAll(store, (pairs) => send(toJsonPatch(pairs)));
+ * ```
+ */
+export function toJsonPatch(
+  pairs: readonly (readonly [PropertyKey, unknown])[],
+  ...states: [previous: StateConstraint, next: StateConstraint] | []
+): JsonPatchOperation[] {
+  const batch = states.length ? states : getBatchStates(pairs);
+  if (!batch) {
+    throw new Error(
+      "toJsonPatch needs the states before and after the batch for pairs not delivered by listenAll",
+    );
+  }
+  const [previous, next] = batch as readonly [StateConstraint, StateConstraint];
+  const ops: JsonPatchOperation[] = [];
+  // Pointers whose whole value has already been written
+  const written = new Set<string>();
+  // Parents come first, so that new objects are added before anything inside them. The sort is stable, keeping array indices in order.
+  const paths = pairs.map(([path]) => splitPath(path)).sort((a, b) => a.length - b.length);
+  for (const segments of paths) {
+    let before = previous;
+    let after = next;
+    for (let i = 0; i <= segments.length; i++) {
+      const pointer = toPointer(segments.slice(0, i));
+      if (written.has(pointer)) {
+        break;
+      }
+      if (i === 0 && !isSameKind(before, after)) {
+        if (before !== after) {
+          ops.push({ op: "replace", path: "", value: after });
+        }
+        written.add(pointer);
+        break;
+      }
+      if (i === segments.length) {
+        break;
+      }
+      const parentBefore = before as Container;
+      const parentAfter = after as Container;
+      const key = segments[i];
+      const isArray = Array.isArray(parentBefore);
+      if (isArray && key === "length") {
+        // Shortened arrays are truncated from the end, so that the remaining indices don't shift
+        const length = (parentAfter as unknown as unknown[]).length;
+        for (let index = parentBefore.length - 1; index >= length; index--) {
+          ops.push({ op: "remove", path: `${pointer}/${index}` });
+        }
+        break;
+      }
+      const existed = hasKey(parentBefore, key);
+      const exists = hasKey(parentAfter, key);
+      before = parentBefore[key];
+      after = parentAfter[key];
+      if (existed && exists && isSameKind(before, after)) {
+        continue;
+      }
+      const path = `${pointer}${toPointer([key])}`;
+      if (existed && exists) {
+        if (before !== after) {
+          ops.push({ op: "replace", path, value: after });
+        }
+      } else if (exists) {
+        ops.push({ op: "add", path, value: after });
+      } else if (existed && !isArray) {
+        // Removed array items are covered by the `length` pair
+        ops.push({ op: "remove", path });
+      }
+      written.add(path);
+      break;
+    }
+  }
+  return ops;
+}
+
+// Returns a deep copy of a value in a draft, so that it can be edited separately
+function clone(value: unknown): unknown {
+  if (!isContainer(value)) {
+    return value;
+  }
+  return Array.isArray(value)
+    ? value.map(clone)
+    : Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)]));
+}
+
+/**
+ * Applies JSON Patch operations to a store in a single batch, using {@link produce}.
+ * All six operations are supported. If an operation fails, such as a `test` that doesn't match or a path that
+ * doesn't exist, an error is thrown and none of the operations are applied.
+ * @param store The Store object
+ * @param ops The JSON Patch operations to apply, as defined by RFC 6902
+ */
+export function applyJsonPatch<T extends AnyState, L extends boolean>(
+  store: StoreView<T, true, L>,
+  ops: readonly JsonPatchOperation[],
+): void {
+  const anyStore = store as StoreView as Store;
+  // Set if an operation replaces the whole state, which can't be done by editing the draft
+  let replaced: { value: unknown } | null = null;
+  transaction(anyStore, () => {
+    produce(anyStore, (draft) => {
+      let root = draft as unknown;
+      // Returns the container and key that a pointer refers to
+      const resolve = (pointer: string): [parent: Container, key: string] => {
+        const segments = fromPointer(pointer);
+        let parent = root as Container;
+        for (const segment of segments.slice(0, -1)) {
+          if (!isContainer(parent) || !hasKey(parent, segment)) {
+            throw new Error(`JSON Patch path not found: ${pointer}`);
+          }
+          parent = parent[segment] as Container;
+        }
+        if (!isContainer(parent)) {
+          throw new Error(`JSON Patch path not found: ${pointer}`);
+        }
+        return [parent, segments[segments.length - 1]];
+      };
+      const get = (pointer: string): unknown => {
+        if (!pointer) {
+          return root;
+        }
+        const [parent, key] = resolve(pointer);
+        if (!hasKey(parent, key)) {
+          throw new Error(`JSON Patch path not found: ${pointer}`);
+        }
+        return parent[key];
+      };
+      const remove = (pointer: string): void => {
+        get(pointer);
+        const [parent, key] = resolve(pointer);
+        if (Array.isArray(parent)) {
+          parent.splice(+key, 1);
+        } else {
+          delete parent[key];
+        }
+      };
+      const add = (pointer: string, value: unknown, replace: boolean): void => {
+        if (!pointer) {
+          root = value;
+          return;
+        }
+        if (replace) {
+          get(pointer);
+        }
+        const [parent, key] = resolve(pointer);
+        if (!Array.isArray(parent)) {
+          parent[key] = value;
+        } else if (replace) {
+          parent[+key] = value;
+        } else if (key === "-" || (/^\d+$/.test(key) && +key <= parent.length)) {
+          parent.splice(key === "-" ? parent.length : +key, 0, value);
+        } else {
+          throw new Error(`JSON Patch path not found: ${pointer}`);
+        }
+      };
+      for (const op of ops) {
+        switch (op.op) {
+          case "add":
+          case "replace":
+            add(op.path, op.value, op.op === "replace");
+            break;
+          case "remove":
+            remove(op.path);
+            break;
+          case "move": {
+            const value = get(op.from);
+            if (op.path.startsWith(`${op.from}/`)) {
+              throw new Error(`JSON Patch cannot move ${op.from} into itself`);
+            }
+            remove(op.from);
+            add(op.path, value, false);
+            break;
+          }
+          case "copy":
+            add(op.path, clone(get(op.from)), false);
+            break;
+          case "test":
+            if (diff(get(op.path), op.value).length) {
+              throw new Error(`JSON Patch test failed: ${op.path}`);
+            }
+            break;
+        }
+      }
+      if (root !== draft) {
+        replaced = { value: root };
+      }
+    });
+    if (replaced) {
+      update(anyStore, ["", replace(replaced.value as StateValue)]);
+    }
+  });
+}
+
+/* v8 ignore start -- @preserve */
+if (import.meta.vitest) {
+  const { test, expect } = import.meta.vitest;
+  const { createStore, focus, insert, joinPath, listenAll, peek, remove, replace, update } =
+    await import("./core.js");
+
+  test("toJsonPatch replays batches on another store", () => {
+    type State = {
+      user?: { name: string; tags: string[]; nickname?: string };
+      list: number[] | { a: number };
+      "a/b~c.d": number;
+    };
+    const initial: State = {
+      user: { name: "Ann", tags: ["a", "b", "c"] },
+      list: [1],
+      "a/b~c.d": 1,
+    };
+    const source = createStore(initial);
+    const replica = createStore(initial);
+    for (const includeObjects of [false, true]) {
+      update(replica, ["", peek(source)]);
+      const unsubscribe = listenAll(
+        source,
+        (pairs) => {
+          applyJsonPatch(replica, toJsonPatch(pairs));
+          expect(peek(replica)).toEqual(peek(source));
+        },
+        includeObjects,
+      );
+      update(source, ["user.name", "Bob"], ["user.nickname", "B"], [joinPath("a/b~c.d"), 2]);
+      remove(source, "user.tags", 0, 2);
+      insert(source, "user.tags", 1, "d", "e");
+      update(source, ["user.tags.0", "f"], ["list", replace({ a: 1 })]);
+      update(source, ["list", [2, 3]], ["user.nickname", null]);
+      update(source, ["user", null]);
+      update(source, ["user", { name: "Cy", tags: [] }]);
+      unsubscribe();
+    }
+    expect(toJsonPatch([["", 2]], 1, 2)).toEqual([{ op: "replace", path: "", value: 2 }]);
+    expect(
+      toJsonPatch(
+        [
+          ["", { a: 1 }],
+          ["a", 1],
+        ],
+        [],
+        { a: 1 },
+      ),
+    ).toEqual([{ op: "replace", path: "", value: { a: 1 } }]);
+    expect(toJsonPatch([["a", 1]], { a: 1 }, { a: 1 })).toEqual([]);
+    expect(toJsonPatch([["a.b", 1]], { a: 1 }, { a: 1 })).toEqual([]);
+    expect(toJsonPatch([["a", 1]], {}, {})).toEqual([]);
+    expect(() => toJsonPatch([["a", 1]])).toThrow("toJsonPatch needs the states");
+  });
+
+  test("toJsonPatch uses paths from the root store", () => {
+    const store = createStore({ a: { list: [1, 2] }, b: 1 });
+    const batches: JsonPatchOperation[][] = [];
+    listenAll(focus(store, "a"), (pairs) => batches.push(toJsonPatch(pairs)));
+    update(store, ["a.list", [1]], ["b", 2]);
+    expect(batches).toEqual([
+      [
+        { op: "replace", path: "/b", value: 2 },
+        { op: "remove", path: "/a/list/1" },
+      ],
+    ]);
+  });
+
+  test("applyJsonPatch supports every operation", () => {
+    const store = createStore({ a: { b: 1 } as Record<string, number>, list: [1, 2, 3], copy: {} });
+    applyJsonPatch(store, [
+      { op: "test", path: "/a", value: { b: 1 } },
+      { op: "add", path: "/a/c.d", value: 2 },
+      { op: "add", path: "/list/-", value: 4 },
+      { op: "add", path: "/list/0", value: 0 },
+      { op: "remove", path: "/list/1" },
+      { op: "replace", path: "/list/0", value: 5 },
+      { op: "move", from: "/list/3", path: "/a/e" },
+      { op: "copy", from: "/a", path: "/copy" },
+      { op: "remove", path: "/a/b" },
+      { op: "replace", path: "/copy/b", value: 6 },
+      { op: "copy", from: "/list", path: "/copy/list" },
+    ]);
+    expect(peek(store)).toEqual({
+      a: { "c.d": 2, e: 4 },
+      list: [5, 2, 3],
+      copy: { b: 6, "c.d": 2, e: 4, list: [5, 2, 3] },
+    });
+    const state = peek(store);
+    const invalid: JsonPatchOperation[][] = [
+      [{ op: "test", path: "/list", value: [5, 2] }],
+      [{ op: "test", path: "", value: {} }],
+      [{ op: "replace", path: "/missing", value: 1 }],
+      [{ op: "add", path: "/missing/a", value: 1 }],
+      [{ op: "add", path: "/a/e/f", value: 1 }],
+      [{ op: "add", path: "/list/4", value: 1 }],
+      [{ op: "remove", path: "a" }],
+      [{ op: "move", from: "/a", path: "/a/x" }],
+    ];
+    for (const ops of invalid) {
+      expect(() => applyJsonPatch(store, [{ op: "remove", path: "/copy" }, ...ops])).toThrow();
+      expect(peek(store)).toBe(state);
+    }
+    applyJsonPatch(store, [{ op: "replace", path: "", value: { list: [] } }]);
+    expect(peek(store)).toEqual({ list: [] });
+  });
+}
@@ -6,21 +6,29 @@ import {
   type FunctionComponent,
   type VNode,
 } from "preact";
-import { useCallback, useContext, useEffect, useRef, useState } from "preact/hooks";
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from "preact/hooks";
 import {
   type AnyState,
   createStore,
+  destroyStore,
   type Focus,
   focus,
+  isPathPattern,
+  keyedItems,
+  type ListenPair,
   listen,
   type PathMap,
   type PathOf,
+  type PathPattern,
+  type PatternMatch,
   peek,
+  peekMatches,
   type StateConstraint,
   type Store,
   type StoreOf,
   type StoreView,
   type StoreViewOf,
+  select,
   update,
 } from "./core.js";
 
@@ -81,10 +89,19 @@ export function useStore<P extends PathOf<AppState>>(path: P = "" as P) {
  */
 export type CalcFn<T, V = T> = (this: void, stateValue: T, prev: V | null) => V;
 
+/**
+ * The path-value pairs matching a path pattern, as returned by {@link useWatch}.
+ */
+export type PatternMatches<T extends AnyState, P extends string> = ListenPair<
+  Pick<T, PatternMatch<T, P>>
+>[];
+
 /**
  * Hook to watch a specific path in the store's state and re-render when it changes.
+ * If the path is a glob-style pattern such as `items.*.name`, the hook watches every matching path,
+ * and the value is an array of the matching path-value pairs.
  * @param store The Store object
- * @param path The path in the store to watch
+ * @param path The path or pattern in the store to watch
  * @param calc Optional calculation function to derive a value from the state. Remember to wrap in {@link useCallback} if needed.
  * @returns The current value at the specified path, or the calculated value
  */
@@ -96,24 +113,59 @@ export function useWatch<T extends AnyState, P extends keyof T, V>(
   calc: (this: void, stateValue: T[P], prev: V | null) => V,
   deps: readonly unknown[],
 ): V;
+export function useWatch<T extends AnyState, P extends string>(
+  store: StoreView<T>,
+  pattern: PathPattern<T, P>,
+): PatternMatches<T, P>;
+export function useWatch<T extends AnyState, P extends string, V>(
+  store: StoreView<T>,
+  pattern: PathPattern<T, P>,
+  calc: (this: void, matches: PatternMatches<T, P>, prev: V | null) => V,
+  deps: readonly unknown[],
+): V;
 export function useWatch<T extends AnyState, P extends keyof T, V>(
   store: StoreView<T>,
   path: P = "" as P,
   calc: (this: void, stateValue: T[P], prev: V | null) => V = (x) => x as unknown as V,
   deps: readonly unknown[] = [],
 ): V {
-  const [value, setValue] = useState(() => {
-    const stateValue = peek(store, path);
-    return calc(stateValue, null);
-  });
+  const isPattern = isPathPattern(path);
+  // For patterns, we re-read all matches whenever one of them changes
+  const read = (stateValue: T[P]) =>
+    isPattern ? (peekMatches(store as StoreView, path as string) as T[P]) : stateValue;
+  const [value, setValue] = useState(() => calc(read(peek(store, path)), null));
   // biome-ignore lint/correctness/useExhaustiveDependencies: deps of calc are passed in manually
-  useEffect(
-    () => listen(store, path, (newValue) => setValue((prev) => calc(newValue, prev)), true),
-    [store, path, ...deps],
-  );
+  useEffect(() => {
+    const update = (newValue: T[P]) => setValue((prev) => calc(read(newValue), prev));
+    const unsubscribe = listen(store, path, update, !isPattern);
+    if (isPattern) {
+      update(undefined as T[P]);
+    }
+    return unsubscribe;
+  }, [store, path, ...deps]);
   return value;
 }
 
+/**
+ * Hook to derive a value from the store's state with a selector, re-rendering when it changes.
+ * Unlike {@link useWatch} with a calc function, the paths that the selector reads are tracked automatically using {@link select},
+ * so it only re-runs when one of them changes.
+ * @param store The Store object
+ * @param selector The function to compute the value from the state. It is re-created when `deps` change.
+ * @param deps The dependencies of the selector, besides the state
+ * @returns The selected value
+ */
+export function useSelect<T extends AnyState, V>(
+  store: StoreView<T>,
+  selector: (state: T[""]) => V,
+  deps: readonly unknown[] = [],
+): V {
+  // The selected store only watches the source store while useWatch is listening to it, so it doesn't need disposing
+  // biome-ignore lint/correctness/useExhaustiveDependencies: deps of selector are passed in manually
+  const selected = useMemo(() => select(store, selector), [store, ...deps]);
+  return useWatch(selected);
+}
+
 /**
  * Hook to get and set the value at a specific path in the store's state. Behaves similarly to {@link useState}.
  * @param store The Store object
@@ -159,10 +211,72 @@ export function List<T extends StateConstraint, M extends boolean>(props: {
    * The function component used to render each item in the list.
    */
   children: FunctionComponent<ItemProps<T, M>>;
+
+  /**
+   * Returns a unique key for each item. When given, rows are tracked by key instead of by index,
+   * so that reordering, inserting or removing items only mounts and unmounts the rows that were added or removed,
+   * and component-local state stays with its item. Each row is given an item store that follows its item; see {@link keyedItems}.
+   */
+  keyBy?: (item: T, index: number) => string | number;
 }) {
-  const { store, children } = props;
+  const { store, children, keyBy } = props;
   const { current: cache } = useRef<VNode<ItemProps<T, M>>[]>([]);
   const length = useWatch(store, "length");
+  const isKeyed = !!keyBy;
+  // The array is identified by its root store and path, as the parent may focus a new store object for it on every render.
+  // Items of another array are not re-used, so that their stores don't write back to it.
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the store is only replaced when it points to another array
+  const arrayStore = useMemo(
+    () => store as StoreView as StoreViewOf<readonly T[], M>,
+    [store.root || store, store.prefix],
+  );
+  // biome-ignore lint/correctness/useExhaustiveDependencies: keyBy may be a new function on every render, so the latest one is kept below
+  const keyed = useMemo(
+    () => (keyBy ? { keyBy, items: keyedItems(arrayStore, keyBy) } : null),
+    [arrayStore, isKeyed],
+  );
+  if (keyed && keyBy) {
+    keyed.keyBy = keyBy;
+  }
+  const [, setKeyedItems] = useState(keyed?.items);
+  useEffect(() => {
+    if (!keyed) {
+      return;
+    }
+    // Item stores are updated here rather than while rendering, so that rows are notified before we re-render
+    const unsubscribe = listen(
+      arrayStore,
+      "",
+      () => {
+        keyed.items = keyedItems(arrayStore, keyed.keyBy, keyed.items);
+        setKeyedItems(keyed.items);
+      },
+      true,
+    );
+    return () => {
+      unsubscribe();
+      // The items are dropped along with the array store or the list. If the effect runs again, new ones are created.
+      for (const item of keyed.items) {
+        destroyStore(item.store);
+      }
+      keyed.items = [];
+    };
+  }, [arrayStore, keyed]);
+  const elements = useRef(new Map<string | number, VNode<ItemProps<T, M>>>());
+
+  if (keyed) {
+    const nextElements: typeof elements.current = new Map();
+    for (const { key, store: itemStore, index } of keyed.items) {
+      let element = elements.current.get(key);
+      // Re-use the element if the item hasn't moved, so that Preact can skip rendering it
+      if (element?.props.index !== index || element.props.itemStore !== itemStore) {
+        element = createElement(children, { key, itemStore, index });
+      }
+      nextElements.set(key, element);
+    }
+    elements.current = nextElements;
+    return Fragment({ children: [...nextElements.values()] });
+  }
 
   while (cache.length < length) {
     const index = cache.length;
@@ -177,7 +291,7 @@ export function List<T extends StateConstraint, M extends boolean>(props: {
 /* v8 ignore start -- @preserve */
 if (import.meta.vitest) {
   const { test, expect } = import.meta.vitest;
-  const { createStore, patch } = await import("./core.js");
+  const { createStore, insert, patch, remove } = await import("./core.js");
   const { render, act } = await import("@testing-library/preact");
   const { createElement } = await import("preact");
 
@@ -233,6 +347,68 @@ if (import.meta.vitest) {
     expect(renderedValue).toBe(6);
   });
 
+  test("useWatch with path pattern", () => {
+    const store = createStore({ items: [{ name: "a", done: false }] });
+    let renderedValue: unknown = null;
+    let renderCount = 0;
+    renderTestComponent(store, () => {
+      renderedValue = useWatch(store, "items.*.name");
+      renderCount++;
+      return null;
+    });
+    expect(renderedValue).toEqual([["items.0.name", "a"]]);
+    const count = renderCount;
+    act(() => patch(store, { items: { 0: { done: true } } }));
+    expect(renderCount).toBe(count);
+    act(() => patch(focus(store, "items"), (prev) => [...prev, { name: "b", done: false }]));
+    expect(renderedValue).toEqual([
+      ["items.0.name", "a"],
+      ["items.1.name", "b"],
+    ]);
+  });
+
+  test("useWatch with path pattern and calc function", () => {
+    const store = createStore({ items: [{ done: false }, { done: true }] });
+    let renderedValue: number | null = null;
+    renderTestComponent(store, () => {
+      renderedValue = useWatch(
+        store,
+        "items.*.done",
+        (matches) => matches.filter(([, done]) => done).length,
+        [],
+      );
+      return null;
+    });
+    expect(renderedValue).toBe(1);
+    act(() => patch(store, { items: { 0: { done: true } } }));
+    expect(renderedValue).toBe(2);
+  });
+
+  test("useSelect re-renders when the selected paths change", () => {
+    const store = createStore({ items: [{ name: "a", done: false }], filter: "all" });
+    let renderedValue: string[] | null = null;
+    let renderCount = 0;
+    renderTestComponent(store, () => {
+      renderedValue = useSelect(store, (state) =>
+        state.items.filter((item) => state.filter === "all" || item.done).map((item) => item.name),
+      );
+      renderCount++;
+      return null;
+    });
+    expect(renderedValue).toEqual(["a"]);
+    const count = renderCount;
+    act(() => patch(store, { items: { 0: { done: true } } }));
+    expect(renderCount).toBe(count);
+    act(() => {
+      patch(store, { filter: "done" });
+      insert(store, "items", 1, { name: "b", done: false });
+    });
+    expect(renderedValue).toEqual(["a"]);
+    act(() => patch(store, { items: { 0: { name: "c" } } }));
+    act(() => patch(store, { items: { 1: { done: true } } }));
+    expect(renderedValue).toEqual(["c", "b"]);
+  });
+
   test("useStoreState provides state and setter", () => {
     const store = createStore({ count: 0 });
     let renderedValue: number | undefined;
@@ -266,4 +442,107 @@ if (import.meta.vitest) {
     renderedItems.sort();
     expect(renderedItems).toEqual(["x", "y", "z"]);
   });
+
+  test("List tracks items by key", () => {
+    type Contact = { id: number; name: string };
+    const store = createStore({
+      contacts: [
+        { id: 1, name: "a" },
+        { id: 2, name: "b" },
+        { id: 3, name: "c" },
+      ] as Contact[],
+    });
+    const mounted = new Set<number>();
+    let renders: string[] = [];
+    function ContactRow(props: ItemProps<Contact>) {
+      const name = useWatch(props.itemStore, "name");
+      const [id] = useState(() => peek(props.itemStore, "id"));
+      useEffect(() => {
+        mounted.add(id);
+        return () => {
+          mounted.delete(id);
+        };
+      }, [id]);
+      renders.push(`${id}:${name}`);
+      return null;
+    }
+    renderTestComponent(store, () =>
+      createElement(List, {
+        store: focus(store, "contacts"),
+        // biome-ignore lint/suspicious/noExplicitAny: for testing
+        children: ContactRow as any,
+        keyBy: (contact) => (contact as Contact).id,
+      }),
+    );
+    expect(renders).toEqual(["1:a", "2:b", "3:c"]);
+    renders = [];
+    act(() => remove(store, "contacts", 0));
+    expect([...mounted].sort()).toEqual([2, 3]);
+    expect(renders.sort()).toEqual(["2:b", "3:c"]);
+    renders = [];
+    act(() => update(store, ["contacts.0.name", "x"]));
+    expect(renders).toEqual(["2:x"]);
+    renders = [];
+    act(() => insert(store, "contacts", 2, { id: 4, name: "d" }));
+    expect(renders).toEqual(["4:d"]);
+    expect([...mounted].sort()).toEqual([2, 3, 4]);
+    act(() => patch(store, { contacts: null }));
+    expect(mounted.size).toBe(0);
+  });
+
+  test("List tracks items of a new store", () => {
+    type Contact = { id: number; name: string };
+    const store = createStore({ which: "a", a: [{ id: 1, name: "a" }] as Contact[] });
+    const other = createStore<Contact[]>([{ id: 1, name: "b" }]);
+    const itemStores: StoreOf<Contact>[] = [];
+    function ContactRow(props: ItemProps<Contact>) {
+      itemStores.push(props.itemStore as StoreOf<Contact>);
+      useWatch(props.itemStore, "name");
+      return null;
+    }
+    renderTestComponent(store, () =>
+      createElement(List, {
+        store: useWatch(store, "which") === "a" ? focus(store, "a") : other,
+        // biome-ignore lint/suspicious/noExplicitAny: for testing
+        children: ContactRow as any,
+        keyBy: (contact) => (contact as Contact).id,
+      }),
+    );
+    const [dropped] = itemStores;
+    act(() => update(store, ["which", "b"]));
+    const itemStore = itemStores[itemStores.length - 1];
+    expect(peek(itemStore, "name")).toBe("b");
+    expect(() => peek(dropped)).toThrow("destroyed");
+    act(() => update(itemStore, ["name", "c"]));
+    expect(peek(store, "a.0.name")).toBe("a");
+    expect(peek(other, "0.name")).toBe("c");
+  });
+
+  test("List keeps its rows when the parent focuses the array again", () => {
+    type Contact = { id: number; name: string };
+    const store = createStore({ count: 0, contacts: [{ id: 1, name: "a" }] as Contact[] });
+    const itemStores = new Set<StoreView>();
+    let mounts = 0;
+    function ContactRow(props: ItemProps<Contact>) {
+      itemStores.add(props.itemStore);
+      const [local] = useState(() => ++mounts);
+      return createElement("span", null, `${useWatch(props.itemStore, "name")}:${local}`);
+    }
+    const { container, unmount } = renderTestComponent(store, () => {
+      useWatch(store, "count");
+      return createElement(List, {
+        store: focus(store, "contacts"),
+        // biome-ignore lint/suspicious/noExplicitAny: for testing
+        children: ContactRow as any,
+        keyBy: (contact) => (contact as Contact).id,
+      });
+    });
+    act(() => update(store, ["count", 1]));
+    act(() => update(store, ["contacts.0.name", "b"]));
+    expect(container.textContent).toBe("b:1");
+    expect(itemStores.size).toBe(1);
+    unmount();
+    const [itemStore] = itemStores;
+    expect(() => peek(itemStore)).toThrow("destroyed");
+  });
 }
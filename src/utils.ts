@@ -1,28 +1,555 @@
-import { createStore, type StateConstraint, type StoreOf, sync } from "./core.js";
+import {
+  createStore,
+  decode,
+  diff,
+  encode,
+  flush,
+  listenAll,
+  type PatchValue,
+  type PathOf,
+  patch,
+  peek,
+  readonly,
+  replace,
+  type StateConstraint,
+  type StateValue,
+  type Store,
+  type StoreOf,
+  type StoreView,
+  type StoreViewOf,
+  splitPath,
+  update,
+} from "./core.js";
 
+/**
+ * Options for {@link syncStorage}.
+ */
+export interface StorageOptions<T extends StateConstraint = StateConstraint> {
+  /**
+   * The version of the shape of the state, which is stored alongside it under `${key}:version` (default: 0)
+   */
+  version?: number;
+
+  /**
+   * Functions that upgrade stored state from older versions, keyed by the version that they upgrade to.
+   * Stored state is upgraded one version at a time, skipping versions without a migration.
+   * If a migration throws, or the stored version is newer than `version`, the stored state is ignored
+   * and the store keeps its initial state.
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: the shape of older versions isn't known here
+  migrations?: Record<number, (state: any) => unknown>;
+
+  /**
+   * The paths to persist. Changes to other paths are not written. (default: the whole state)
+   */
+  include?: readonly PathOf<T>[];
+
+  /**
+   * Paths to leave out of storage, such as transient UI state, even if they are within `include`
+   */
+  exclude?: readonly PathOf<T>[];
+
+  /**
+   * When to write changes (default: "sync"):
+   * - "sync" writes after every batch of changes
+   * - "debounce" writes once no changes have been made for `wait` milliseconds
+   * - "throttle" writes at most once every `wait` milliseconds
+   * - "idle" writes when the browser is idle, or after at most `wait` milliseconds
+   */
+  strategy?: "sync" | "debounce" | "throttle" | "idle";
+
+  /**
+   * The delay in milliseconds for the write strategy (default: 100)
+   */
+  wait?: number;
+
+  /**
+   * Whether to apply changes written to the storage by other tabs, by listening for `storage` events (default: false)
+   */
+  crossTab?: boolean;
+
+  /**
+   * Decides the state to use when another tab writes a state that differs from this one.
+   * The result is applied to the store, and written back to the storage if it isn't `remote`. (default: the remote state wins)
+   */
+  resolveConflict?: (local: T, remote: T) => T;
+}
+
+/**
+ * The function returned by {@link syncStorage}, which stops syncing when called, after writing any pending changes.
+ */
+export type StorageSync = (() => void) & {
+  /**
+   * Writes any pending changes immediately, such as before the page is unloaded
+   */
+  readonly flush: () => void;
+};
+
+// Checks whether a path starts with the segments of another
+function startsWith(path: readonly string[], prefix: readonly string[]): boolean {
+  return prefix.every((segment, i) => path[i] === segment);
+}
+
+// Returns a copy of a value with the value at a path replaced, or deleted if it is undefined
+function setIn(value: unknown, path: readonly string[], child: unknown): unknown {
+  if (!path.length) {
+    return child;
+  }
+  const [key, ...rest] = path;
+  const parent = (value ?? {}) as Record<string, unknown>;
+  const copy = (Array.isArray(parent) ? [...parent] : { ...parent }) as Record<string, unknown>;
+  const next = setIn(parent[key], rest, child);
+  if (next === undefined) {
+    delete copy[key];
+  } else {
+    copy[key] = next;
+  }
+  return copy;
+}
+
+// Gets the value at a path, or undefined if it doesn't exist
+function getIn(value: unknown, path: readonly string[]): unknown {
+  return path.reduce<unknown>(
+    (parent, key) =>
+      parent && typeof parent === "object" ? (parent as Record<string, unknown>)[key] : undefined,
+    value,
+  );
+}
+
+/**
+ * Persists a store to a Web Storage object, such as `localStorage`. The stored state is loaded into the store immediately,
+ * after upgrading it with `migrations` if it was written by an older version. After that, the persisted part of the state is
+ * written whenever it changes, according to `strategy`.
+ * With `crossTab`, changes written by other tabs are diffed against the current state, so that only the changed paths are notified.
+ * Values are stored with {@link encode}.
+ * @param store The Store object to persist
+ * @param storage The Storage object to use
+ * @param key The key under which to store the state
+ * @param options The paths to persist, when to write them, migrations for older versions, and cross-tab syncing
+ * @returns A function to stop syncing, with a `flush` method to write pending changes
+ * @example
+ * ```ts
+ * const persist = syncStorage(store, localStorage, "settings", {
+ *   version: 2,
+ *   migrations: {
+ *     1: (state) => ({ ...state, theme: state.dark ? "dark" : "light" }),
+ *     2: ({ fontSize, ...state }) => ({ ...state, font: { size: fontSize } }),
+ *   },
+ *   exclude: ["ui"],
+ *   strategy: "debounce",
+ * });
+ * addEventListener("pagehide", persist.flush);
+ * ```
+ */
 export function syncStorage<T extends StateConstraint>(
   store: StoreOf<T>,
   storage: Storage,
   key: string,
-) {
-  return sync(
-    store,
+  options: StorageOptions<T> = {},
+): StorageSync {
+  const {
+    version = 0,
+    migrations = {},
+    strategy = "sync",
+    wait = 100,
+    crossTab = false,
+    resolveConflict,
+  } = options;
+  const versionKey = `${key}:version`;
+  const prefix = splitPath(store.prefix);
+  const include = options.include?.map(splitPath);
+  const exclude = (options.exclude ?? []).map(splitPath);
+  // Set while applying changes from another tab, so that they aren't written back
+  let applying = false;
+  let pending = false;
+  // Cancels the scheduled write, if there is one
+  let cancel: (() => void) | undefined;
+
+  // Whether a path, relative to the store, is persisted
+  const isPersisted = (path: string[]) =>
+    (!include ||
+      include.some((included) => startsWith(path, included) || startsWith(included, path))) &&
+    !exclude.some((excluded) => startsWith(path, excluded));
+  // Returns the persisted part of the state
+  const select = (state: unknown) => {
+    let value = include
+      ? include.reduce<unknown>((result, path) => {
+          const value = getIn(state, path);
+          return value === undefined ? result : setIn(result, path, value);
+        }, undefined)
+      : state;
+    for (const path of exclude) {
+      value = setIn(value, path, undefined);
+    }
+    return value as T;
+  };
+  const read = (): T | undefined => {
+    const storedValue = storage.getItem(key);
+    if (!storedValue) {
+      return;
+    }
+    let value = decode(JSON.parse(storedValue)) as unknown;
+    const storedVersion = Number(storage.getItem(versionKey)) || 0;
+    if (storedVersion > version) {
+      return;
+    }
+    try {
+      for (let next = storedVersion + 1; next <= version; next++) {
+        value = migrations[next] ? migrations[next](value) : value;
+      }
+    } catch {
+      return;
+    }
+    return value as T;
+  };
+  const write = (value: T) => {
+    storage.setItem(key, JSON.stringify(encode(value)));
+    storage.setItem(versionKey, String(version));
+  };
+  const flushWrites = () => {
+    cancel?.();
+    cancel = undefined;
+    if (pending) {
+      pending = false;
+      write(select(peek(store, "")));
+    }
+  };
+  const later = (): (() => void) => {
+    if (strategy === "idle" && typeof requestIdleCallback === "function") {
+      const id = requestIdleCallback(flushWrites, { timeout: wait });
+      return () => cancelIdleCallback(id);
+    }
+    const id = setTimeout(flushWrites, wait);
+    return () => clearTimeout(id);
+  };
+  const schedule = () => {
+    pending = true;
+    if (strategy === "sync") {
+      flushWrites();
+    } else if (strategy === "debounce" || !cancel) {
+      // Debouncing restarts the wait on every change, while throttling and idle writes keep the first schedule
+      cancel?.();
+      cancel = later();
+    }
+  };
+
+  const stored = read();
+  if (stored !== undefined) {
+    patch(store, stored as PatchValue<T>);
+  }
+  const unsubscribe = listenAll(store, (pairs) => {
+    const changed = pairs.some(([path]) => {
+      const segments = splitPath(path);
+      return startsWith(segments, prefix) && isPersisted(segments.slice(prefix.length));
+    });
+    if (changed && !applying) {
+      schedule();
+    }
+  });
+  const onStorage = (event: StorageEvent) => {
+    if (event.storageArea !== storage || event.key !== key) {
+      return;
+    }
+    const remote = read();
+    if (remote === undefined) {
+      return;
+    }
+    const local = select(peek(store, ""));
+    const next =
+      resolveConflict && diff(local, remote).length ? resolveConflict(local, remote) : remote;
+    applying = true;
+    try {
+      update(store as StoreView as Store, ...diff(local, next));
+      // Apply the changes now even if the store is deferred, so that the guard covers them
+      flush(store);
+    } finally {
+      applying = false;
+    }
+    if (next !== remote) {
+      write(next);
+    }
+  };
+  if (crossTab) {
+    addEventListener("storage", onStorage);
+  }
+  return Object.assign(
     () => {
-      const storedValue = storage.getItem(key);
-      if (storedValue) {
-        return JSON.parse(storedValue) as T;
+      flushWrites();
+      unsubscribe();
+      if (crossTab) {
+        removeEventListener("storage", onStorage);
       }
     },
-    (value: T) => {
-      storage.setItem(key, JSON.stringify(value));
-    },
+    { flush: flushWrites },
   );
 }
 
+/**
+ * Options for {@link syncIndexedDB}.
+ */
+export interface IndexedDBOptions {
+  /**
+   * The name of the database, which is created if it doesn't exist
+   */
+  dbName: string;
+
+  /**
+   * The name of the object store within the database, which is created if it doesn't exist
+   */
+  storeName: string;
+
+  /**
+   * The key under which the state is stored, so that several stores can share an object store
+   */
+  key: string;
+
+  /**
+   * The IndexedDB implementation to use (default: the global `indexedDB`)
+   */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * The observable status of a store synced with {@link syncIndexedDB}.
+ */
+export type IndexedDBStatus = {
+  status: "hydrating" | "ready" | "error";
+  error?: string;
+};
+
+/**
+ * The handle returned by {@link syncIndexedDB}.
+ */
+export interface IndexedDBSync {
+  /**
+   * A read-only Store with the hydration status, and the last error if reading or writing failed
+   */
+  readonly status: StoreViewOf<IndexedDBStatus, false>;
+
+  /**
+   * Resolves once hydration has finished, successfully or not. Check `status` to tell which.
+   */
+  readonly hydrated: Promise<void>;
+
+  /**
+   * Stops writing changes to the database, and closes it
+   */
+  readonly stop: () => void;
+}
+
+// The record listing which keys of the state are stored, and whether they make up an array
+type IndexRecord = { array: boolean; keys: string[] };
+
+// Wraps an IndexedDB request in a promise
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Opens a database, upgrading it to add the object store if it doesn't have it yet
+async function openDatabase(
+  factory: IDBFactory,
+  dbName: string,
+  storeName: string,
+  version?: number,
+): Promise<IDBDatabase> {
+  const request = factory.open(dbName, version);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(storeName);
+  };
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    settle(request).then(resolve, reject);
+    // Connections that don't close when asked to, such as ones in another tab, block the upgrade until they are closed
+    request.onblocked = () => {
+      reject(new Error(`Cannot upgrade database "${dbName}" while another connection is open`));
+      // The upgrade still goes ahead once they close, but the connection is no longer needed
+      request.onsuccess = () => request.result.close();
+    };
+  });
+  if (db.objectStoreNames.contains(storeName)) {
+    return db;
+  }
+  db.close();
+  return openDatabase(factory, dbName, storeName, db.version + 1);
+}
+
+// Lists the keys that are stored as separate records, including the length of arrays
+function storedKeys(value: StateValue): string[] {
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+  const keys = Object.keys(value);
+  return Array.isArray(value) ? [...keys, "length"] : keys;
+}
+
+/**
+ * Persists a store to IndexedDB. Each key of the state is stored as a separate record, so that after each batch of changes
+ * only the subtrees that changed are written, rather than re-serializing the whole state as {@link syncStorage} does.
+ * The stored state is loaded asynchronously, replacing the state of the store; if nothing has been stored yet,
+ * the current state is written instead. Changes are only written once hydration has finished,
+ * so any made before then are overwritten by the stored state. Values are stored with {@link encode}.
+ * The connection is closed when another one upgrades the database, and reopened on the next write.
+ * @param store The Store object to persist. Its state should be an object or an array.
+ * @param options Where to store the state
+ * @returns The hydration status, and a function to stop syncing
+ * @example
+ * ```ts
+ * const { status } = syncIndexedDB(store, { dbName: "app", storeName: "state", key: "todos" });
+ * const { status: loading } = useWatch(status);
+ * ```
+ */
+export function syncIndexedDB<T extends object>(
+  store: StoreOf<T>,
+  options: IndexedDBOptions,
+): IndexedDBSync {
+  const { dbName, storeName, key, indexedDB: factory = indexedDB } = options;
+  const anyStore = store as StoreView as Store;
+  const prefix = splitPath(store.prefix);
+  const status = createStore<IndexedDBStatus>({ status: "hydrating" });
+  // The status is replaced rather than patched, so that a stale error is dropped
+  const setStatus = (value: IndexedDBStatus) => update(status, ["", replace(value)]);
+  const fail = (error: unknown) => setStatus({ status: "error", error: String(error) });
+  let db: IDBDatabase | undefined;
+  let stopped = false;
+  let unsubscribe = () => {};
+  // The keys that currently have records
+  let written: string[] = [];
+  // The keys that changed while the database was closed, to be written once it has been reopened
+  let pending: Set<string> | null = null;
+
+  // Opens the database, unless syncing is stopped in the meantime
+  const connect = async () => {
+    const database = await openDatabase(factory, dbName, storeName);
+    if (stopped) {
+      database.close();
+      return undefined;
+    }
+    // Make way for other connections that upgrade the database, such as to add an object store. It is reopened on the next write.
+    database.onversionchange = () => {
+      database.close();
+      db = undefined;
+    };
+    db = database;
+    return database;
+  };
+
+  const write = (changed: Iterable<string>) => {
+    if (!db) {
+      if (!pending) {
+        pending = new Set();
+        connect().then((database) => {
+          const keys = pending as Set<string>;
+          pending = null;
+          if (database) {
+            write(keys);
+          }
+        }, fail);
+      }
+      for (const childKey of changed) {
+        pending.add(childKey);
+      }
+      return;
+    }
+    // Errors are reported in the status, rather than thrown at whoever changed the store
+    try {
+      const value = peek(anyStore) as StateValue;
+      const keys = storedKeys(value);
+      const transaction = db.transaction(storeName, "readwrite");
+      transaction.onabort = () => fail(transaction.error);
+      // Recover from an earlier failed write
+      transaction.oncomplete = () => {
+        if (peek(status, "status") === "error") {
+          setStatus({ status: "ready" });
+        }
+      };
+      const objectStore = transaction.objectStore(storeName);
+      for (const childKey of changed) {
+        const child = keys.includes(childKey)
+          ? (value as Record<string, StateValue>)[childKey]
+          : undefined;
+        if (child === undefined) {
+          objectStore.delete([key, childKey]);
+        } else {
+          objectStore.put(encode(child), [key, childKey]);
+        }
+      }
+      if (keys.join("\n") !== written.join("\n")) {
+        const index: IndexRecord = { array: Array.isArray(value), keys };
+        objectStore.put(index, [key]);
+        written = keys;
+      }
+    } catch (error) {
+      fail(error);
+    }
+  };
+
+  const hydrate = async () => {
+    const database = await connect();
+    if (!database) {
+      return;
+    }
+    const read = (recordKey: IDBValidKey) =>
+      settle(database.transaction(storeName).objectStore(storeName).get(recordKey));
+    const index = (await read([key])) as IndexRecord | undefined;
+    if (stopped) {
+      return;
+    }
+    if (index) {
+      const values = await Promise.all(index.keys.map((childKey) => read([key, childKey])));
+      if (stopped) {
+        return;
+      }
+      const entries = Object.fromEntries(
+        index.keys.map((childKey, i) => [childKey, decode(values[i])]),
+      );
+      written = index.keys;
+      update(anyStore, ["", replace(index.array ? Object.assign([], entries) : entries)]);
+    } else {
+      write(storedKeys(peek(anyStore) as StateValue));
+    }
+    unsubscribe = listenAll(anyStore, (pairs) => {
+      const changed = new Set<string>();
+      for (const [path] of pairs) {
+        const segments = splitPath(path);
+        if (prefix.some((segment, i) => segments[i] !== segment)) {
+          continue;
+        }
+        if (segments.length === prefix.length) {
+          // The whole state was replaced, so every record might have changed
+          for (const childKey of [...written, ...storedKeys(peek(anyStore) as StateValue)]) {
+            changed.add(childKey);
+          }
+        } else {
+          changed.add(segments[prefix.length]);
+        }
+      }
+      if (changed.size) {
+        write(changed);
+      }
+    });
+    // Unless the first write has already failed
+    if (peek(status, "status") === "hydrating") {
+      setStatus({ status: "ready" });
+    }
+  };
+
+  return {
+    status: readonly(status),
+    hydrated: hydrate().catch(fail),
+    stop: () => {
+      stopped = true;
+      unsubscribe();
+      db?.close();
+    },
+  };
+}
+
 /* v8 ignore start -- @preserve */
 if (import.meta.vitest) {
-  const { test, expect } = import.meta.vitest;
-  const { peek, update } = await import("./core.js");
+  const { test, expect, vi } = import.meta.vitest;
+  const { focus, insert, listen } = await import("./core.js");
 
   test("webStorage syncs with sessionStorage", () => {
     const store = createStore({ count: 0 });
@@ -32,10 +559,498 @@ if (import.meta.vitest) {
     expect(JSON.parse(sessionStorage.getItem("test-key") || "{}").count).toBe(5);
   });
 
+  test("webStorage persists new empty objects and arrays", () => {
+    const store = createStore<{ a?: Record<string, number>; b: number | number[] }>({ b: 1 });
+    syncStorage(store, sessionStorage, "test-key-empty");
+    update(store, ["a", {}], ["b", []]);
+    expect(JSON.parse(sessionStorage.getItem("test-key-empty") || "{}")).toEqual({ a: {}, b: [] });
+  });
+
   test("webStorage with initial value in store", () => {
     const store = createStore({ count: 0 });
     sessionStorage.setItem("test-key-2", JSON.stringify({ count: 10 }));
     syncStorage(store, sessionStorage, "test-key-2");
     expect(peek(store, "").count).toBe(10);
   });
+
+  test("webStorage migrates state from older versions", () => {
+    sessionStorage.setItem("test-key-4", JSON.stringify({ dark: true, size: 12 }));
+    const migrations = {
+      1: (state: { dark: boolean; size: number }) => ({
+        theme: state.dark ? "dark" : "light",
+        size: state.size,
+      }),
+      3: ({ size, ...state }: { theme: string; size: number }) => ({ ...state, font: { size } }),
+    };
+    const initial = { theme: "light", font: { size: 10 } };
+    const store = createStore(initial);
+    syncStorage(store, sessionStorage, "test-key-4", { version: 3, migrations });
+    expect(peek(store)).toEqual({ theme: "dark", font: { size: 12 } });
+    update(store, ["font.size", 14]);
+    expect(sessionStorage.getItem("test-key-4:version")).toBe("3");
+    const upToDate = createStore(initial);
+    syncStorage(upToDate, sessionStorage, "test-key-4", { version: 3, migrations });
+    expect(peek(upToDate, "font.size")).toBe(14);
+    const older = createStore(initial);
+    syncStorage(older, sessionStorage, "test-key-4", { version: 2 });
+    expect(peek(older)).toEqual(initial);
+  });
+
+  test("webStorage falls back to the initial state when a migration fails", () => {
+    sessionStorage.setItem("test-key-5", JSON.stringify({ count: "many" }));
+    const store = createStore({ count: 0 });
+    syncStorage(store, sessionStorage, "test-key-5", {
+      version: 1,
+      migrations: {
+        1: (state: { count: string }) => {
+          const count = Number(state.count);
+          if (Number.isNaN(count)) {
+            throw new Error("Invalid count");
+          }
+          return { count };
+        },
+      },
+    });
+    expect(peek(store, "count")).toBe(0);
+    update(store, ["count", 1]);
+    expect(JSON.parse(sessionStorage.getItem("test-key-5") || "{}")).toEqual({ count: 1 });
+  });
+
+  // Simulates another tab writing a state to the storage
+  function writeFromOtherTab(key: string, value: unknown, version = 0) {
+    // Indented, so that writing it back would be noticed
+    sessionStorage.setItem(key, JSON.stringify(value, null, 2));
+    sessionStorage.setItem(`${key}:version`, String(version));
+    dispatchEvent(new StorageEvent("storage", { key, storageArea: sessionStorage }));
+  }
+
+  test("webStorage applies changes from other tabs", () => {
+    const store = createStore(
+      { user: { name: "Ann", age: 30 }, count: 0 },
+      { scheduler: "microtask" },
+    );
+    const stop = syncStorage(store, sessionStorage, "test-key-6", { crossTab: true });
+    const name = vi.fn();
+    const age = vi.fn();
+    listen(store, "user.name", name);
+    listen(store, "user.age", age);
+    writeFromOtherTab("test-key-6", { user: { name: "Bob", age: 30 }, count: 0 });
+    expect(peek(store)).toEqual({ user: { name: "Bob", age: 30 }, count: 0 });
+    expect(name).toHaveBeenCalledWith("Bob", "user.name");
+    expect(age).not.toHaveBeenCalled();
+    expect(sessionStorage.getItem("test-key-6")).toContain("\n");
+    dispatchEvent(new StorageEvent("storage", { key: "other", storageArea: sessionStorage }));
+    dispatchEvent(new StorageEvent("storage", { key: "test-key-6", storageArea: localStorage }));
+    sessionStorage.removeItem("test-key-6");
+    dispatchEvent(new StorageEvent("storage", { key: "test-key-6", storageArea: sessionStorage }));
+    expect(peek(store, "user.name")).toBe("Bob");
+    stop();
+    writeFromOtherTab("test-key-6", { user: { name: "Cy", age: 30 }, count: 0 });
+    expect(peek(store, "user.name")).toBe("Bob");
+  });
+
+  test("webStorage resolves conflicts with other tabs", () => {
+    const store = createStore({ count: 1 });
+    const resolveConflict = vi.fn((local: { count: number }, remote: { count: number }) => ({
+      count: Math.max(local.count, remote.count),
+    }));
+    syncStorage(store, sessionStorage, "test-key-7", { crossTab: true, resolveConflict });
+    update(store, ["count", 5]);
+    writeFromOtherTab("test-key-7", { count: 3 });
+    expect(resolveConflict).toHaveBeenCalledWith({ count: 5 }, { count: 3 });
+    expect(peek(store, "count")).toBe(5);
+    expect(JSON.parse(sessionStorage.getItem("test-key-7") || "{}")).toEqual({ count: 5 });
+    writeFromOtherTab("test-key-7", { count: 5 });
+    expect(resolveConflict).toHaveBeenCalledTimes(1);
+    writeFromOtherTab("test-key-7", { count: 8 });
+    expect(peek(store, "count")).toBe(8);
+  });
+
+  test("webStorage only persists the selected paths", () => {
+    const state = {
+      user: { name: "Ann", draft: "" },
+      todos: [{ text: "a" }],
+      ui: { open: false },
+    };
+    const store = createStore(state);
+    sessionStorage.setItem("test-key-8", JSON.stringify({ user: { name: "Bob" } }));
+    syncStorage(focus(createStore({ other: 0, state }), "state"), sessionStorage, "test-key-8", {
+      include: ["user", "todos"],
+      exclude: ["user.draft", "todos.0.text"],
+    });
+    const stop = syncStorage(store, sessionStorage, "test-key-8", {
+      include: ["user", "todos"],
+      exclude: ["user.draft", "todos.0.text"],
+    });
+    expect(peek(store, "user")).toEqual({ name: "Bob", draft: "" });
+    const setItem = vi.spyOn(sessionStorage, "setItem");
+    update(store, ["ui.open", true], ["user.draft", "hi"]);
+    expect(setItem).not.toHaveBeenCalled();
+    update(store, ["user.name", "Cy"]);
+    expect(JSON.parse(sessionStorage.getItem("test-key-8") || "{}")).toEqual({
+      user: { name: "Cy" },
+      todos: [{}],
+    });
+    setItem.mockRestore();
+    // Without `crossTab`, stopping doesn't need a global event target, as in workers with a custom storage
+    const removeEventListener = vi.spyOn(globalThis, "removeEventListener");
+    stop();
+    expect(removeEventListener).not.toHaveBeenCalled();
+    removeEventListener.mockRestore();
+    const full = createStore<{ a: { b: number; c: number }; x?: { y: number } }>({
+      a: { b: 1, c: 2 },
+    });
+    syncStorage(full, sessionStorage, "test-key-9", { exclude: ["a.c"] });
+    update(full, ["a.b", 3]);
+    expect(JSON.parse(sessionStorage.getItem("test-key-9") || "{}")).toEqual({ a: { b: 3 } });
+    syncStorage(full, sessionStorage, "test-key-9", { include: ["a.b", "x.y"] });
+    update(full, ["a.b", 4]);
+    expect(JSON.parse(sessionStorage.getItem("test-key-9") || "{}")).toEqual({ a: { b: 4 } });
+  });
+
+  test("webStorage debounces, throttles and flushes writes", () => {
+    vi.useFakeTimers();
+    const written = () => JSON.parse(sessionStorage.getItem("test-key-10") || "{}").count;
+    const store = createStore({ count: 0 });
+    const debounced = syncStorage(store, sessionStorage, "test-key-10", {
+      strategy: "debounce",
+      wait: 100,
+    });
+    update(store, ["count", 1]);
+    vi.advanceTimersByTime(60);
+    update(store, ["count", 2]);
+    vi.advanceTimersByTime(60);
+    expect(written()).toBeUndefined();
+    vi.advanceTimersByTime(60);
+    expect(written()).toBe(2);
+    update(store, ["count", 3]);
+    debounced.flush();
+    expect(written()).toBe(3);
+    update(store, ["count", 4]);
+    debounced();
+    expect(written()).toBe(4);
+
+    const throttled = syncStorage(store, sessionStorage, "test-key-10", {
+      strategy: "throttle",
+      wait: 100,
+    });
+    update(store, ["count", 5]);
+    vi.advanceTimersByTime(60);
+    update(store, ["count", 6]);
+    vi.advanceTimersByTime(60);
+    expect(written()).toBe(6);
+    throttled();
+
+    const idle = syncStorage(store, sessionStorage, "test-key-10", { strategy: "idle" });
+    update(store, ["count", 7]);
+    expect(written()).toBe(6);
+    vi.advanceTimersByTime(100);
+    expect(written()).toBe(7);
+    idle();
+    vi.useRealTimers();
+    const requestIdleCallback = vi.fn(() => 1);
+    const cancelIdleCallback = vi.fn();
+    vi.stubGlobal("requestIdleCallback", requestIdleCallback);
+    vi.stubGlobal("cancelIdleCallback", cancelIdleCallback);
+    const browserIdle = syncStorage(store, sessionStorage, "test-key-10", { strategy: "idle" });
+    update(store, ["count", 8]);
+    update(store, ["count", 9]);
+    expect(requestIdleCallback).toHaveBeenCalledTimes(1);
+    expect(requestIdleCallback).toHaveBeenCalledWith(expect.any(Function), { timeout: 100 });
+    browserIdle.flush();
+    expect(cancelIdleCallback).toHaveBeenCalledWith(1);
+    expect(written()).toBe(9);
+    browserIdle();
+    vi.unstubAllGlobals();
+  });
+
+  test("webStorage round-trips codec values", () => {
+    const store = createStore({ when: new Date(0) });
+    syncStorage(store, sessionStorage, "test-key-3");
+    update(store, ["when", new Date(1000)]);
+    const restored = createStore({ when: new Date(0) });
+    syncStorage(restored, sessionStorage, "test-key-3");
+    expect(peek(restored, "when")).toEqual(new Date(1000));
+  });
+
+  // A minimal in-memory IndexedDB, which applies writes immediately and fires events asynchronously.
+  // Upgrades ask open connections to close, and are blocked until they do.
+  function fakeIndexedDB() {
+    type Database = {
+      version: number;
+      stores: Map<string, Map<string, unknown>>;
+      connections: Set<IDBDatabase>;
+      waiting: (() => void)[];
+    };
+    const databases = new Map<string, Database>();
+    const failures = { open: false, write: false, transaction: false };
+    const writes: unknown[] = [];
+    const later = (fn: () => void) => setTimeout(fn);
+    const request = (result?: unknown) => {
+      const req = { result, error: null as unknown } as unknown as IDBRequest;
+      later(() => req.onsuccess?.(new Event("success")));
+      return req;
+    };
+    const connect = (database: Database, req: IDBOpenDBRequest, upgrade: boolean) => {
+      const connection = {
+        version: database.version,
+        objectStoreNames: { contains: (storeName: string) => database.stores.has(storeName) },
+        createObjectStore: (storeName: string) => database.stores.set(storeName, new Map()),
+        close: vi.fn(() => {
+          database.connections.delete(connection);
+          if (!database.connections.size) {
+            for (const resume of database.waiting.splice(0)) {
+              resume();
+            }
+          }
+        }),
+        onversionchange: null as ((event: Event) => void) | null,
+        transaction: (storeName: string) => {
+          if (failures.transaction || !database.connections.has(connection)) {
+            throw new Error("The database connection is closing");
+          }
+          const records = database.stores.get(storeName) as Map<string, unknown>;
+          const transaction = {
+            error: null as unknown,
+            objectStore: () => ({
+              get: (key: IDBValidKey) => request(structuredClone(records.get(JSON.stringify(key)))),
+              put: (value: unknown, key: IDBValidKey) => {
+                writes.push(key);
+                records.set(JSON.stringify(key), structuredClone(value));
+                return request();
+              },
+              delete: (key: IDBValidKey) => {
+                writes.push(key);
+                records.delete(JSON.stringify(key));
+                return request();
+              },
+            }),
+          } as unknown as IDBTransaction;
+          later(() => {
+            if (failures.write) {
+              (transaction as { error: unknown }).error = new Error("Quota exceeded");
+              transaction.onabort?.(new Event("abort"));
+            } else {
+              transaction.oncomplete?.(new Event("complete"));
+            }
+          });
+          return transaction;
+        },
+      } as unknown as IDBDatabase;
+      database.connections.add(connection);
+      (req as { result: unknown }).result = connection;
+      if (upgrade) {
+        req.onupgradeneeded?.(new Event("upgradeneeded") as IDBVersionChangeEvent);
+      }
+      req.onsuccess?.(new Event("success"));
+    };
+    const factory = {
+      open: (name: string, version?: number) => {
+        const req = { error: null } as unknown as IDBOpenDBRequest;
+        later(() => {
+          if (failures.open) {
+            (req as { error: unknown }).error = new Error("Cannot open");
+            req.onerror?.(new Event("error"));
+            return;
+          }
+          const database: Database = databases.get(name) ?? {
+            version: 1,
+            stores: new Map(),
+            connections: new Set(),
+            waiting: [],
+          };
+          databases.set(name, database);
+          if (!version || version <= database.version) {
+            connect(database, req, false);
+            return;
+          }
+          const upgrade = () => {
+            database.version = version;
+            connect(database, req, true);
+          };
+          for (const connection of database.connections) {
+            connection.onversionchange?.(new Event("versionchange") as IDBVersionChangeEvent);
+          }
+          if (database.connections.size) {
+            database.waiting.push(upgrade);
+            req.onblocked?.(new Event("blocked") as IDBVersionChangeEvent);
+          } else {
+            upgrade();
+          }
+        });
+        return req;
+      },
+    } as unknown as IDBFactory;
+    return { factory, failures, writes, databases };
+  }
+
+  // Waits for the fake IndexedDB to fire its pending events
+  const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+  test("syncIndexedDB writes changed subtrees and hydrates", async () => {
+    const { factory, writes } = fakeIndexedDB();
+    const options = { dbName: "app", storeName: "state", key: "main", indexedDB: factory };
+    const store = createStore({
+      todos: [{ text: "a", done: false }],
+      settings: { theme: "dark" } as { theme: string; font?: string },
+      when: new Date(0),
+    });
+    const { status, hydrated } = syncIndexedDB(store, options);
+    expect(peek(status)).toEqual({ status: "hydrating" });
+    await hydrated;
+    expect(peek(status)).toEqual({ status: "ready" });
+    expect(writes).toEqual([["main", "todos"], ["main", "settings"], ["main", "when"], ["main"]]);
+    writes.length = 0;
+    update(store, ["todos.0.done", true], ["when", new Date(1)]);
+    expect(writes).toEqual([
+      ["main", "todos"],
+      ["main", "when"],
+    ]);
+    writes.length = 0;
+    update(store, ["settings", null]);
+    expect(writes).toEqual([["main", "settings"], ["main"]]);
+
+    const restored = createStore({
+      todos: [] as { text: string; done: boolean }[],
+      settings: { theme: "light" } as { theme: string; font?: string },
+      when: new Date(0),
+    });
+    const sync = syncIndexedDB(restored, options);
+    await sync.hydrated;
+    expect(peek(restored)).toEqual({ todos: [{ text: "a", done: true }], when: new Date(1) });
+    sync.stop();
+    update(restored, ["todos", []]);
+    expect(peek(store, "todos")).toHaveLength(1);
+  });
+
+  test("syncIndexedDB stores arrays and focused stores", async () => {
+    const { factory, writes } = fakeIndexedDB();
+    const options = { dbName: "app", storeName: "lists", key: "list", indexedDB: factory };
+    const store = createStore({ list: ["a", "b"], other: 1 });
+    await syncIndexedDB(focus(store, "list"), options).hydrated;
+    writes.length = 0;
+    update(store, ["other", 2]);
+    expect(writes).toEqual([]);
+    insert(store, "list", 2, "c");
+    expect(writes).toEqual([["list", "length"], ["list", "2"], ["list"]]);
+    writes.length = 0;
+    update(store, ["list", null]);
+    expect(writes).toContainEqual(["list", "0"]);
+    update(store, ["list", ["x"]]);
+    const restored = createStore({ list: [] as string[] });
+    await syncIndexedDB(focus(restored, "list"), options).hydrated;
+    expect(peek(restored, "list")).toEqual(["x"]);
+  });
+
+  test("syncIndexedDB writes new empty objects and arrays", async () => {
+    const { factory, writes } = fakeIndexedDB();
+    const options = { dbName: "app", storeName: "state", key: "main", indexedDB: factory };
+    type State = { a?: Record<string, number>; b: number | number[] };
+    const store = createStore<State>({ b: 1 });
+    await syncIndexedDB(store, options).hydrated;
+    writes.length = 0;
+    update(store, ["a", {}], ["b", []]);
+    expect(writes).toEqual([["main", "a"], ["main", "b"], ["main"]]);
+    const restored = createStore<State>({ b: 0 });
+    await syncIndexedDB(restored, options).hydrated;
+    expect(peek(restored)).toEqual({ a: {}, b: [] });
+  });
+
+  test("syncIndexedDB reopens the database after another connection upgrades it", async () => {
+    const { factory, writes } = fakeIndexedDB();
+    const options = { dbName: "app", storeName: "lists", key: "list", indexedDB: factory };
+    const store = createStore({ list: ["a"] });
+    const { status, hydrated, stop } = syncIndexedDB(focus(store, "list"), options);
+    await hydrated;
+    // Adding another object store upgrades the database, which closes the first connection
+    const other = syncIndexedDB(createStore({ a: 1 }), { ...options, storeName: "other" });
+    await other.hydrated;
+    expect(peek(other.status)).toEqual({ status: "ready" });
+    writes.length = 0;
+    update(store, ["list", ["b"]]);
+    insert(store, "list", 1, "c");
+    expect(writes).toEqual([]);
+    await tick();
+    expect(writes).toContainEqual(["list", "1"]);
+    expect(peek(status)).toEqual({ status: "ready" });
+    const restored = createStore({ list: [] as string[] });
+    await syncIndexedDB(focus(restored, "list"), options).hydrated;
+    expect(peek(restored, "list")).toEqual(["b", "c"]);
+    await syncIndexedDB(createStore({ a: 1 }), { ...options, storeName: "third" }).hydrated;
+    writes.length = 0;
+    update(store, ["list", ["d"]]);
+    stop();
+    await tick();
+    expect(writes).toEqual([]);
+  });
+
+  test("syncIndexedDB reports upgrades blocked by other connections", async () => {
+    const { factory, databases } = fakeIndexedDB();
+    const options = { dbName: "app", storeName: "state", key: "main", indexedDB: factory };
+    const request = factory.open("app");
+    await tick();
+    const { status, hydrated } = syncIndexedDB(createStore({ a: 1 }), options);
+    await hydrated;
+    expect(peek(status)).toEqual({
+      status: "error",
+      error: 'Error: Cannot upgrade database "app" while another connection is open',
+    });
+    // The upgrade goes ahead once the other connection closes, and its connection is closed too
+    request.result.close();
+    expect(databases.get("app")?.stores.has("state")).toBe(true);
+    expect(databases.get("app")?.connections.size).toBe(0);
+  });
+
+  test("syncIndexedDB reports errors", async () => {
+    const { factory, failures } = fakeIndexedDB();
+    const options = { dbName: "app", storeName: "state", key: "main", indexedDB: factory };
+    failures.open = true;
+    const failed = syncIndexedDB(createStore({ a: 1 }), options);
+    await failed.hydrated;
+    expect(peek(failed.status)).toEqual({ status: "error", error: "Error: Cannot open" });
+    failures.open = false;
+    failures.write = true;
+    const store = createStore({ a: 1 });
+    const { status, hydrated } = syncIndexedDB(store, options);
+    await hydrated;
+    await tick();
+    expect(peek(status)).toEqual({ status: "error", error: "Error: Quota exceeded" });
+    failures.write = false;
+    failures.transaction = true;
+    update(store, ["a", 2]);
+    expect(peek(status)).toEqual({
+      status: "error",
+      error: "Error: The database connection is closing",
+    });
+    failures.transaction = false;
+    update(store, ["a", 3]);
+    expect(peek(status, "status")).toBe("error");
+    await tick();
+    expect(peek(status)).toEqual({ status: "ready" });
+  });
+
+  test("syncIndexedDB can be stopped before hydrating", async () => {
+    const { factory, writes } = fakeIndexedDB();
+    const options = { dbName: "app", storeName: "state", key: "main", indexedDB: factory };
+    const early = syncIndexedDB(createStore({ a: 1 }), options);
+    early.stop();
+    await early.hydrated;
+    expect(writes).toEqual([]);
+    const store = createStore({ a: 1 });
+    const late = syncIndexedDB(store, options);
+    await tick();
+    late.stop();
+    await late.hydrated;
+    update(store, ["a", 2]);
+    expect(writes).toEqual([]);
+    await syncIndexedDB(store, options).hydrated;
+    const restored = createStore({ a: 1 });
+    const reading = syncIndexedDB(restored, options);
+    for (let i = 0; i < 2; i++) {
+      await tick();
+    }
+    reading.stop();
+    await reading.hydrated;
+    expect(peek(restored, "a")).toBe(1);
+  });
 }
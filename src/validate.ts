@@ -1,5 +1,7 @@
 import type { StandardSchemaV1 } from "@standard-schema/spec";
 import {
+  DELETE,
+  joinPath,
   type PatchPair,
   type PathMap,
   type PathOf,
@@ -39,24 +41,26 @@ export async function validate<T extends StateConstraint, TResult extends StateC
   const result = await schema["~standard"].validate(data);
   if (result.issues) {
     const issues = result.issues.map<[string, string]>((issue) => [
-      (issue.path || [])
-        .map((segment) => (typeof segment === "object" ? segment.key : segment))
-        .join("."),
+      joinPath(
+        ...(issue.path || []).map((segment) =>
+          typeof segment === "object" ? segment.key : segment,
+        ),
+      ),
       issue.message,
     ]);
     update(
       metaStore,
       ...([
-        ["issues", null] as const,
+        ["issues", DELETE] as const,
         ...issues.map(([path, issue]) => [`issues.${path}`, issue] as const),
-        ["validated", null] as const,
+        ["validated", DELETE] as const,
       ] as PatchPair<ValidationResult<T, TResult>>[]),
     );
     return undefined;
   }
   update(
     metaStore,
-    ["issues", null] as const as PatchPair<ValidationResult<T, TResult>>,
+    ["issues", DELETE] as const as PatchPair<ValidationResult<T, TResult>>,
     ["validated", result.value] as const as PatchPair<ValidationResult<T, TResult>>,
   );
   return result.value;